@@ -9,12 +9,14 @@ import {
   X,
   Moon,
   Sun,
+  Monitor,
   Code,
   Link,
   Search,
   Trash2,
   Star,
   Eye,
+  RotateCcw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,7 +33,8 @@ import {
 import { useTweakcnSwitcher } from "@/lib/tweakcn-switcher";
 import type { TweakcnSwitcherConfig } from "@/lib/tweakcn-switcher/types";
 import { cn } from "@/lib/utils";
-import { isCssCode, fetchThemeFromUrl, parseCssToThemeRegistryItem } from "@/lib/tweakcn-switcher/utils";
+import { isNamespacedName } from "@/lib/tweakcn-switcher/sources";
+import { isCssCode } from "@/lib/tweakcn-switcher/utils";
 import { type KeyboardEvent, useState, useMemo } from "react";
 import { toast } from "sonner";
 import { ThemePreviewDialog } from "./theme-preview-dialog";
@@ -49,15 +52,20 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
     error,
     applyThemeOption,
     addTheme,
+    prefetchTheme,
+    previewTheme: loadPreview,
+    cancelPreview,
     removeTheme,
+    resetTheme,
+    canReset,
     mode,
+    resolvedMode,
     setMode,
     isLoading,
-    favorites,
     toggleFavorite,
     isFavorite,
   } = useTweakcnSwitcher(config);
-  const { allowDeleteDefaults = true, defaultThemes = [] } = config;
+  const { allowDeleteDefaults = true, defaultThemes = [], prefetch = "intent" } = config;
 
   const [open, setOpen] = useState(false);
   const [input, setInput] = useState("");
@@ -67,7 +75,10 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
   const [inputMode, setInputMode] = useState<"url" | "css">("url");
   const [searchQuery, setSearchQuery] = useState("");
   const [previewOpen, setPreviewOpen] = useState(false);
-  const [previewTheme, setPreviewTheme] = useState<{ theme: any; registryItem: ThemeRegistryItem | null } | null>(null);
+  const [previewTheme, setPreviewTheme] = useState<{
+    theme: any;
+    registryItem: ThemeRegistryItem | null;
+  } | null>(null);
   const [loadingPreview, setLoadingPreview] = useState(false);
 
   const handleAddTheme = async () => {
@@ -77,10 +88,16 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
     try {
       const newTheme = await addTheme(input.trim(), title.trim() || undefined);
       if (newTheme !== null) {
-        await applyThemeOption(newTheme);
-        toast.success("Theme added successfully!", {
-          description: `"${newTheme.name}" has been added and applied.`,
-        });
+        const status = await applyThemeOption(newTheme);
+        if (status === "failed") {
+          // The hook's error state explains why; keep the input so it can be fixed
+          return;
+        }
+        if (status === "applied") {
+          toast.success("Theme added successfully!", {
+            description: `"${newTheme.name}" has been added and applied.`,
+          });
+        }
         setInput("");
         setTitle("");
         setShowInput(false);
@@ -99,7 +116,7 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
     // Auto-detect input mode if user pastes CSS
     if (isCssCode(e.target.value)) {
       setInputMode("css");
-    } else if (e.target.value.trim().startsWith("http")) {
+    } else if (e.target.value.trim().startsWith("http") || isNamespacedName(e.target.value)) {
       setInputMode("url");
     }
   };
@@ -133,27 +150,56 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
     });
   }, [themes, searchQuery, isFavorite]);
 
-  const handlePreviewTheme = async (theme: typeof themes[0]) => {
+  // Themes from a catalog are listed under its name, after the others
+  const themeGroups = useMemo(() => {
+    const groups = new Map<string | undefined, typeof themes>([[undefined, []]]);
+    filteredAndSortedThemes.forEach((theme) => {
+      groups.set(theme.catalog, [...(groups.get(theme.catalog) ?? []), theme]);
+    });
+    return [...groups].map(([catalog, groupThemes]) => ({ catalog, themes: groupThemes }));
+  }, [filteredAndSortedThemes]);
+
+  // Cycle through light -> dark -> system
+  const nextMode = mode === "light" ? "dark" : mode === "dark" ? "system" : "light";
+  const ModeIcon = mode === "light" ? Sun : mode === "dark" ? Moon : Monitor;
+
+  const showDefaultEntry = "default".includes(searchQuery.trim().toLowerCase());
+
+  // Hovering or focusing a theme is a good sign it is about to be clicked
+  const handlePrefetchTheme = (theme: (typeof themes)[0]) => {
+    if (prefetch && currentTheme?.id !== theme.id) {
+      prefetchTheme(theme);
+    }
+  };
+
+  const handlePreviewTheme = async (theme: (typeof themes)[0]) => {
     setLoadingPreview(true);
     setPreviewOpen(true);
     setPreviewTheme({ theme, registryItem: null });
 
+    if (!theme.css && !theme.url) {
+      setLoadingPreview(false);
+      return;
+    }
     try {
-      let registryItem: ThemeRegistryItem;
-      if (theme.css) {
-        registryItem = parseCssToThemeRegistryItem(theme.css, theme.name);
-      } else if (theme.url) {
-        registryItem = await fetchThemeFromUrl(theme.url);
-      } else {
-        setLoadingPreview(false);
+      const registryItem = await loadPreview(theme);
+      // Null when another preview replaced this one or the dialog was closed
+      if (!registryItem) {
         return;
       }
-
       setPreviewTheme({ theme, registryItem });
+      setLoadingPreview(false);
     } catch (err) {
       console.error("Failed to load theme for preview:", err);
       toast.error("Failed to load theme preview");
-    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handlePreviewOpenChange = (nextOpen: boolean) => {
+    setPreviewOpen(nextOpen);
+    if (!nextOpen) {
+      cancelPreview();
       setLoadingPreview(false);
     }
   };
@@ -176,11 +222,12 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
               <Button
                 variant="ghost"
                 size="icon-xs"
-                onClick={() => setMode(mode === "light" ? "dark" : "light")}
+                onClick={() => setMode(nextMode)}
                 className="h-6 w-6 shrink-0"
-                aria-label={`Switch to ${mode === "light" ? "dark" : "light"} mode`}
+                aria-label={`Switch to ${nextMode} mode`}
+                title={`Mode: ${mode}`}
               >
-                {mode === "light" ? <Moon className="size-3" /> : <Sun className="size-3" />}
+                <ModeIcon className="size-3" />
               </Button>
               <DialogClose
                 render={
@@ -202,7 +249,7 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
         <div className="space-y-4 min-w-0 overflow-x-hidden">
           {error && (
             <div className="px-3 py-2 text-sm text-destructive bg-destructive/10 rounded-none border border-destructive/20">
-              {error}
+              {error.message}
             </div>
           )}
 
@@ -263,7 +310,7 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
                   <div className="flex gap-2 min-w-0">
                     <Input
                       id="theme-url"
-                      placeholder="https://tweakcn.com/r/themes/..."
+                      placeholder="https://tweakcn.com/themes/... or @namespace/theme"
                       value={input}
                       onChange={handleInputChange}
                       onKeyDown={handleKeyDown}
@@ -335,115 +382,165 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
                   className="h-8 text-sm pl-8 w-full min-w-0"
                 />
               </div>
-              {filteredAndSortedThemes.length > 0 ? (
+              {filteredAndSortedThemes.length > 0 || showDefaultEntry ? (
                 <div className="space-y-1 max-h-[300px] overflow-y-auto overflow-x-hidden min-w-0">
-                  {filteredAndSortedThemes.map((theme) => (
+                  {showDefaultEntry && (
                     <button
-                      key={theme.id}
                       onClick={() => {
-                        // Prevent clicks if already loading or if this is the current theme
-                        if (isLoading || currentTheme?.id === theme.id) {
+                        // Also cancels a theme that is still loading or clears a restored one
+                        if (!canReset) {
                           return;
                         }
-                        applyThemeOption(theme);
+                        resetTheme();
                       }}
                       type="button"
                       className={cn(
-                        "flex items-center w-full text-start justify-between group px-3 py-2 rounded-md border border-transparent hover:bg-muted hover:border-border transition-colors min-w-0 cursor-pointer",
-                        currentTheme?.id === theme.id && "bg-muted border-border",
-                        (isLoading || currentTheme?.id === theme.id) &&
-                          "opacity-50 cursor-not-allowed",
+                        "flex items-center w-full text-start gap-2 px-3 py-2 rounded-md border border-transparent hover:bg-muted hover:border-border transition-colors min-w-0 cursor-pointer",
+                        currentTheme === null && "bg-muted border-border",
+                        !canReset && "opacity-50 cursor-not-allowed",
                       )}
                     >
-                      <div className="flex items-center gap-2 flex-1 min-w-0">
-                        <Button
-                          variant="ghost"
-                          size="icon-xs"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            toggleFavorite(theme.id);
+                      <RotateCcw className="size-3 shrink-0 text-muted-foreground" />
+                      <span
+                        className={cn(
+                          "text-sm truncate flex-1 min-w-0",
+                          currentTheme === null ? "font-medium" : "text-muted-foreground",
+                        )}
+                      >
+                        Default
+                      </span>
+                    </button>
+                  )}
+                  {themeGroups.map((group) => (
+                    <div
+                      key={group.catalog ?? ""}
+                      role="group"
+                      aria-label={group.catalog ?? "Themes"}
+                      className="space-y-1"
+                    >
+                      {group.catalog && (
+                        <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground truncate">
+                          {group.catalog}
+                        </div>
+                      )}
+                      {group.themes.map((theme) => (
+                        <button
+                          key={theme.id}
+                          onClick={() => {
+                            // The latest click wins over a theme that is still loading
+                            if (currentTheme?.id === theme.id && !isLoading) {
+                              return;
+                            }
+                            applyThemeOption(theme);
                           }}
+                          onMouseEnter={() => handlePrefetchTheme(theme)}
+                          onFocus={() => handlePrefetchTheme(theme)}
+                          type="button"
                           className={cn(
-                            "h-4 w-4 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity",
-                            isFavorite(theme.id) && "opacity-100",
+                            "flex items-center w-full text-start justify-between group px-3 py-2 rounded-md border border-transparent hover:bg-muted hover:border-border transition-colors min-w-0 cursor-pointer",
+                            currentTheme?.id === theme.id && "bg-muted border-border",
+                            currentTheme?.id === theme.id &&
+                              !isLoading &&
+                              "opacity-50 cursor-not-allowed",
                           )}
-                          aria-label={isFavorite(theme.id) ? `Unfavorite ${theme.name}` : `Favorite ${theme.name}`}
                         >
-                          <Star
-                            className={cn(
-                              "size-3",
-                              isFavorite(theme.id)
-                                ? "fill-yellow-400 text-yellow-400"
-                                : "text-muted-foreground",
-                            )}
-                          />
-                        </Button>
-                        <span
-                          className={cn(
-                            "text-sm truncate flex-1 min-w-0",
-                            currentTheme?.id === theme.id
-                              ? "font-medium"
-                              : "text-muted-foreground",
-                          )}
-                        >
-                          {theme.name}
-                        </span>
-                      </div>
-                      <div className="flex items-center gap-1 shrink-0">
-                        <Button
-                          variant="ghost"
-                          size="icon-xs"
-                          onClick={async (e) => {
-                            e.stopPropagation();
-                            await handlePreviewTheme(theme);
-                          }}
-                          className="h-5 w-5 opacity-0 group-hover:opacity-100 transition-opacity"
-                          aria-label={`Preview ${theme.name}`}
-                          title="Preview theme"
-                        >
-                          <Eye className="size-3" />
-                        </Button>
-                        {(() => {
-                          // Check if this theme is a default theme
-                          const isDefaultTheme = defaultThemes.some((dt) => dt.id === theme.id);
-                          // Show delete button if allowDeleteDefaults is true (default) or if it's not a default theme
-                          const canDelete = allowDeleteDefaults || !isDefaultTheme;
-                          if (!canDelete) return null;
-                          return (
+                          <div className="flex items-center gap-2 flex-1 min-w-0">
+                            <Button
+                              variant="ghost"
+                              size="icon-xs"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleFavorite(theme.id);
+                              }}
+                              className={cn(
+                                "h-4 w-4 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity",
+                                isFavorite(theme.id) && "opacity-100",
+                              )}
+                              aria-label={
+                                isFavorite(theme.id)
+                                  ? `Unfavorite ${theme.name}`
+                                  : `Favorite ${theme.name}`
+                              }
+                            >
+                              <Star
+                                className={cn(
+                                  "size-3",
+                                  isFavorite(theme.id)
+                                    ? "fill-yellow-400 text-yellow-400"
+                                    : "text-muted-foreground",
+                                )}
+                              />
+                            </Button>
+                            <span
+                              className={cn(
+                                "text-sm truncate flex-1 min-w-0",
+                                currentTheme?.id === theme.id
+                                  ? "font-medium"
+                                  : "text-muted-foreground",
+                              )}
+                            >
+                              {theme.name}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-1 shrink-0">
                             <Button
                               variant="ghost"
                               size="icon-xs"
                               onClick={async (e) => {
                                 e.stopPropagation();
-                                const wasCurrentTheme = currentTheme?.id === theme.id;
-                                removeTheme(theme.id);
-
-                                // If we deleted the current theme, switch to another one
-                                if (wasCurrentTheme) {
-                                  // Get the remaining themes after deletion
-                                  const remainingThemes = themes.filter((t) => t.id !== theme.id);
-
-                                  if (remainingThemes.length > 0) {
-                                    // Switch to the last theme
-                                    await applyThemeOption(
-                                      remainingThemes[remainingThemes.length - 1],
-                                    );
-                                  } else if (defaultThemes.length > 0) {
-                                    // If no themes remain, switch to the first default theme
-                                    await applyThemeOption(defaultThemes[0]);
-                                  }
-                                  // If no themes and no defaults, do nothing (currentTheme is already null)
-                                }
+                                await handlePreviewTheme(theme);
                               }}
                               className="h-5 w-5 opacity-0 group-hover:opacity-100 transition-opacity"
-                              aria-label={`Remove ${theme.name}`}
+                              aria-label={`Preview ${theme.name}`}
+                              title="Preview theme"
                             >
-                              <Trash2 className="size-3" />
+                              <Eye className="size-3" />
                             </Button>
-                          );
-                        })()}
-                      </div>
-                    </button>
+                            {(() => {
+                              // Check if this theme is a default theme
+                              const isDefaultTheme = defaultThemes.some((dt) => dt.id === theme.id);
+                              // Show delete button if allowDeleteDefaults is true (default) or if it's not a default theme
+                              const canDelete = allowDeleteDefaults || !isDefaultTheme;
+                              if (!canDelete) return null;
+                              return (
+                                <Button
+                                  variant="ghost"
+                                  size="icon-xs"
+                                  onClick={async (e) => {
+                                    e.stopPropagation();
+                                    const wasCurrentTheme = currentTheme?.id === theme.id;
+                                    removeTheme(theme.id);
+
+                                    // If we deleted the current theme, switch to another one
+                                    if (wasCurrentTheme) {
+                                      // Get the remaining themes after deletion
+                                      const remainingThemes = themes.filter(
+                                        (t) => t.id !== theme.id,
+                                      );
+
+                                      if (remainingThemes.length > 0) {
+                                        // Switch to the last theme
+                                        await applyThemeOption(
+                                          remainingThemes[remainingThemes.length - 1],
+                                        );
+                                      } else if (defaultThemes.length > 0) {
+                                        // If no themes remain, switch to the first default theme
+                                        await applyThemeOption(defaultThemes[0]);
+                                      }
+                                      // If no themes and no defaults, do nothing (currentTheme is already null)
+                                    }
+                                  }}
+                                  className="h-5 w-5 opacity-0 group-hover:opacity-100 transition-opacity"
+                                  aria-label={`Remove ${theme.name}`}
+                                >
+                                  <Trash2 className="size-3" />
+                                </Button>
+                              );
+                            })()}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   ))}
                 </div>
               ) : (
@@ -469,10 +566,10 @@ export function TweakcnSwitcher({ className, trigger, ...config }: TweakcnSwitch
       {/* Theme Preview Dialog */}
       <ThemePreviewDialog
         open={previewOpen}
-        onOpenChange={setPreviewOpen}
+        onOpenChange={handlePreviewOpenChange}
         theme={previewTheme?.theme || null}
         registryItem={previewTheme?.registryItem || null}
-        mode={mode}
+        mode={resolvedMode}
         isLoading={loadingPreview}
       />
     </Dialog>
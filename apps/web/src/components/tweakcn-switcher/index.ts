@@ -4,3 +4,5 @@
 
 export { TweakcnSwitcher } from "../tweakcn-switcher";
 export type { TweakcnSwitcherProps } from "../tweakcn-switcher";
+export { ThemeScope } from "../theme-scope";
+export type { ThemeScopeProps } from "../theme-scope";
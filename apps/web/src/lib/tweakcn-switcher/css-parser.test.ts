@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { parseCss } from "./css-parser";
+import { ThemeParseError } from "./errors";
+
+describe("parseCss", () => {
+  test("reads rules, declarations and nested at-rules", () => {
+    const nodes = parseCss(`
+      @layer base {
+        :root { --primary: oklch(0.5 0.2 250); }
+        .dark { --primary: red; }
+      }
+    `);
+
+    expect(nodes).toHaveLength(1);
+    const layer = nodes[0]!;
+    expect(layer).toMatchObject({ type: "at-rule", name: "layer", prelude: "base" });
+    expect(layer.type === "at-rule" && layer.children).toMatchObject([
+      {
+        type: "rule",
+        selector: ":root",
+        children: [{ type: "declaration", property: "--primary", value: "oklch(0.5 0.2 250)" }],
+      },
+      { type: "rule", selector: ".dark" },
+    ]);
+  });
+
+  test("keeps semicolons inside strings and url()", () => {
+    const [rule] = parseCss(
+      `:root { --font: "a;b", serif; --image: url(data:image/png;base64,AAA); }`,
+    );
+
+    expect(rule?.type === "rule" && rule.children).toMatchObject([
+      { property: "--font", value: '"a;b", serif' },
+      { property: "--image", value: "url(data:image/png;base64,AAA)" },
+    ]);
+  });
+
+  test("collapses whitespace and drops comments in values", () => {
+    const [rule] = parseCss(`:root {\n  --shadow: 0 1px\n    2px /* soft */ black;\n}`);
+
+    expect(rule?.type === "rule" && rule.children).toMatchObject([
+      { property: "--shadow", value: "0 1px 2px black" },
+    ]);
+  });
+
+  test("reads statements such as @import", () => {
+    expect(parseCss(`@import url("https://example.com/a.css");`)).toMatchObject([
+      {
+        type: "at-rule",
+        name: "import",
+        prelude: 'url("https://example.com/a.css")',
+        children: null,
+      },
+    ]);
+  });
+
+  test("reports the position of an unclosed block", () => {
+    try {
+      parseCss(":root {\n  --a: 1;\n  .dark {");
+      throw new Error("expected a parse error");
+    } catch (e) {
+      expect(e).toBeInstanceOf(ThemeParseError);
+      expect((e as ThemeParseError).code).toBe("invalid-css");
+      expect((e as ThemeParseError).message).toBe('Invalid CSS: Unclosed "{" at line 3, column 9');
+    }
+  });
+
+  test("rejects unterminated strings and stray braces", () => {
+    expect(() => parseCss(`:root { --a: "open; }`)).toThrow("Unterminated string");
+    expect(() => parseCss(`:root { --a: 1; } }`)).toThrow('Unexpected "}"');
+    expect(() => parseCss(`:root { color }`)).toThrow('Expected "property: value"');
+  });
+});
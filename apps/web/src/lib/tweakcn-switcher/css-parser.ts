@@ -0,0 +1,301 @@
+/**
+ * Tokenizer and parser for pasted theme CSS
+ * Produces a tree of rules, at-rules and declarations with source positions, so nesting,
+ * `@layer` wrappers and semicolons inside `url()` or strings are read the way a browser would.
+ */
+
+import { ThemeParseError } from "./errors";
+
+export interface CssPosition {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  offset: number;
+}
+
+export interface CssDeclaration {
+  type: "declaration";
+  property: string;
+  /** Whitespace collapsed, comments removed */
+  value: string;
+  position: CssPosition;
+}
+
+export interface CssRule {
+  type: "rule";
+  selector: string;
+  children: CssNode[];
+  position: CssPosition;
+}
+
+export interface CssAtRule {
+  type: "at-rule";
+  /** Lowercase, without the `@`, e.g. "layer" */
+  name: string;
+  prelude: string;
+  /** null for statements such as `@import "x.css";` */
+  children: CssNode[] | null;
+  position: CssPosition;
+}
+
+export type CssNode = CssDeclaration | CssRule | CssAtRule;
+
+type CssTokenType = "whitespace" | "string" | "text" | "{" | "}" | "(" | ")" | ";" | ":";
+
+interface CssToken {
+  type: CssTokenType;
+  value: string;
+  position: CssPosition;
+}
+
+const SOURCE = "CSS input";
+const SINGLE_CHAR_TOKENS = new Set(["{", "}", "(", ")", ";", ":"]);
+
+function createParseError(message: string, position: CssPosition): ThemeParseError {
+  return new ThemeParseError(
+    `Invalid CSS: ${message} at line ${position.line}, column ${position.column}`,
+    { code: "invalid-css", source: SOURCE, position },
+  );
+}
+
+/**
+ * Split CSS into tokens, dropping comments
+ */
+function tokenize(css: string): CssToken[] {
+  const tokens: CssToken[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): CssPosition => ({ line, column, offset });
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (css[offset] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < css.length) {
+    const start = position();
+    const char = css[offset]!;
+
+    if (css.startsWith("/*", offset)) {
+      const end = css.indexOf("*/", offset + 2);
+      if (end === -1) {
+        throw createParseError("Unterminated comment", start);
+      }
+      advance(end + 2 - offset);
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      let end = offset;
+      while (end < css.length && /\s/.test(css[end]!)) {
+        end++;
+      }
+      // Whitespace on both sides of a dropped comment collapses into one token
+      if (tokens[tokens.length - 1]?.type !== "whitespace") {
+        tokens.push({ type: "whitespace", value: " ", position: start });
+      }
+      advance(end - offset);
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end = offset + 1;
+      while (end < css.length && css[end] !== char) {
+        if (css[end] === "\n") {
+          throw createParseError("Unterminated string", start);
+        }
+        end += css[end] === "\\" ? 2 : 1;
+      }
+      if (end >= css.length) {
+        throw createParseError("Unterminated string", start);
+      }
+      tokens.push({ type: "string", value: css.slice(offset, end + 1), position: start });
+      advance(end + 1 - offset);
+      continue;
+    }
+
+    if (SINGLE_CHAR_TOKENS.has(char)) {
+      tokens.push({ type: char as CssTokenType, value: char, position: start });
+      advance(1);
+      continue;
+    }
+
+    // Anything else runs until the next structural character; escapes such as `\:` are kept
+    let end = offset;
+    while (end < css.length) {
+      const next = css[end]!;
+      if (next === "\\") {
+        end += 2;
+        continue;
+      }
+      if (
+        SINGLE_CHAR_TOKENS.has(next) ||
+        /\s/.test(next) ||
+        next === '"' ||
+        next === "'" ||
+        css.startsWith("/*", end)
+      ) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(end, css.length);
+    tokens.push({ type: "text", value: css.slice(offset, end), position: start });
+    advance(end - offset);
+  }
+
+  return tokens;
+}
+
+function trimWhitespace(tokens: CssToken[]): CssToken[] {
+  let start = 0;
+  let end = tokens.length;
+  while (start < end && tokens[start]!.type === "whitespace") {
+    start++;
+  }
+  while (end > start && tokens[end - 1]!.type === "whitespace") {
+    end--;
+  }
+  return tokens.slice(start, end);
+}
+
+function stringify(tokens: CssToken[]): string {
+  return trimWhitespace(tokens)
+    .map((token) => token.value)
+    .join("");
+}
+
+/**
+ * Turn the tokens before a `;` or `}` into a declaration or an at-rule statement
+ */
+function parseStatement(statement: CssToken[]): CssNode | null {
+  const tokens = trimWhitespace(statement);
+  const first = tokens[0];
+  if (!first) {
+    return null;
+  }
+  if (first.type === "text" && first.value.startsWith("@")) {
+    return {
+      type: "at-rule",
+      name: first.value.slice(1).toLowerCase(),
+      prelude: stringify(tokens.slice(1)),
+      children: null,
+      position: first.position,
+    };
+  }
+
+  // The first colon outside parentheses separates the property from its value
+  let depth = 0;
+  const colon = tokens.findIndex((token) => {
+    depth += token.type === "(" ? 1 : token.type === ")" ? -1 : 0;
+    return depth === 0 && token.type === ":";
+  });
+  const property = colon > 0 ? stringify(tokens.slice(0, colon)) : "";
+  if (!property) {
+    throw createParseError(
+      `Expected "property: value" but found "${stringify(tokens)}"`,
+      first.position,
+    );
+  }
+  return {
+    type: "declaration",
+    property,
+    value: stringify(tokens.slice(colon + 1)),
+    position: first.position,
+  };
+}
+
+/**
+ * Parse tokens up to the `}` matching `opening`, or to the end when `opening` is null
+ */
+function parseBlock(
+  tokens: CssToken[],
+  cursor: { index: number },
+  opening: CssToken | null,
+): CssNode[] {
+  const nodes: CssNode[] = [];
+  let pending: CssToken[] = [];
+  // Open parentheses, so `;` in `url(data:…;base64,…)` doesn't end the declaration
+  const parens: CssToken[] = [];
+
+  const flush = () => {
+    const node = parseStatement(pending);
+    if (node) {
+      nodes.push(node);
+    }
+    pending = [];
+  };
+
+  while (cursor.index < tokens.length) {
+    const token = tokens[cursor.index++]!;
+
+    if (token.type === "(") {
+      parens.push(token);
+    } else if (token.type === ")") {
+      if (!parens.pop()) {
+        throw createParseError('Unexpected ")"', token.position);
+      }
+    } else if (parens.length === 0) {
+      if (token.type === ";") {
+        flush();
+        continue;
+      }
+      if (token.type === "}") {
+        if (!opening) {
+          throw createParseError('Unexpected "}"', token.position);
+        }
+        flush();
+        return nodes;
+      }
+      if (token.type === "{") {
+        const prelude = trimWhitespace(pending);
+        pending = [];
+        const first = prelude[0];
+        if (!first) {
+          throw createParseError('Expected a selector before "{"', token.position);
+        }
+        const children = parseBlock(tokens, cursor, token);
+        nodes.push(
+          first.type === "text" && first.value.startsWith("@")
+            ? {
+                type: "at-rule",
+                name: first.value.slice(1).toLowerCase(),
+                prelude: stringify(prelude.slice(1)),
+                children,
+                position: first.position,
+              }
+            : { type: "rule", selector: stringify(prelude), children, position: first.position },
+        );
+        continue;
+      }
+    }
+    pending.push(token);
+  }
+
+  const unclosedParen = parens[0];
+  if (unclosedParen) {
+    throw createParseError('Unclosed "("', unclosedParen.position);
+  }
+  if (opening) {
+    throw createParseError('Unclosed "{"', opening.position);
+  }
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse a stylesheet into rules, at-rules and declarations
+ * Throws a ThemeParseError with code "invalid-css" and the `position` of the problem.
+ */
+export function parseCss(css: string): CssNode[] {
+  return parseBlock(tokenize(css), { index: 0 }, null);
+}
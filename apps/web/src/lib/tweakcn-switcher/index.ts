@@ -3,11 +3,93 @@
  */
 
 export { useTweakcnSwitcher } from "./use-tweakcn-switcher";
-export type { UseTweakcnSwitcherReturn } from "./use-tweakcn-switcher";
-export { applyThemeFromRegistry, fetchThemeFromUrl } from "./utils";
+export type { ApplyThemeStatus, UseTweakcnSwitcherReturn } from "./use-tweakcn-switcher";
+export {
+  applyThemeFromRegistry,
+  applyMode,
+  compileThemeStylesheet,
+  fetchThemeCatalog,
+  fetchThemeFromUrl,
+  normalizeTweakcnUrl,
+  renderThemeToCss,
+  resolveThemeOption,
+  revertTheme,
+} from "./utils";
 export type {
   ThemeRegistryItem,
   ThemeRegistryCssVars,
+  ThemeRegistryCss,
   ThemeOption,
+  ThemeCatalog,
+  ThemeCatalogOptions,
   TweakcnSwitcherConfig,
+  ApplyThemeOptions,
+  ThemeEngine,
+  ThemePrefetch,
+  ThemeMode,
+  ThemeModeAdapter,
+  ResolvedThemeMode,
+  ThemeFont,
+  FontSource,
+  FontResolver,
+  FontProvider,
+  LocalFontFace,
+  LocalFontProvider,
+  FontLoadingStrategy,
+  FontLoadingOptions,
+  FontLoadFailure,
+  StyleInjection,
+  StyleInjectionOptions,
+  SanitizeIssue,
+  SanitizeOptions,
+  ThemeSourceOptions,
+  RetryOptions,
+  ThemeFetcher,
+  ThemeRequestInit,
+  ThemeSourceResolver,
+  CachedRegistryItem,
+  ThemeCache,
+  ThemeCacheOptions,
+  ThemeCacheStorage,
 } from "./types";
+export type { CompileThemeStylesheetOptions, RenderThemeToCssOptions } from "./utils";
+export { getFontResolver, preloadThemeFonts } from "./fonts";
+export { serializeRegistryCss } from "./registry-css";
+export { mergeRegistryItems } from "./registry-item";
+export {
+  createThemeCache,
+  createIndexedDbStorage,
+  createLocalStorageStorage,
+  createMemoryStorage,
+  getDefaultThemeCache,
+} from "./cache";
+export { fetchWithRetry, isAbortError } from "./request";
+export type { RequestOptions } from "./request";
+export {
+  FontLoadError,
+  ThemeFetchError,
+  ThemeParseError,
+  ThemeValidationError,
+  toTweakcnError,
+  TweakcnError,
+} from "./errors";
+export type { ThemeValidationIssue, TweakcnErrorCode, TweakcnErrorOptions } from "./errors";
+export { parseCss } from "./css-parser";
+export type { CssAtRule, CssDeclaration, CssNode, CssPosition, CssRule } from "./css-parser";
+export { registryIndexSchema, themeRegistryItemSchema, validateRegistryItem } from "./schema";
+export { sanitizeRegistryItem } from "./sanitize";
+export {
+  createNamespaceResolver,
+  DEFAULT_REGISTRIES,
+  DEFAULT_SOURCE_RESOLVERS,
+  gistResolver,
+  githubResolver,
+  resolveThemeUrl,
+  shadcnResolver,
+  tweakcnResolver,
+} from "./sources";
+export type { SanitizeResult } from "./sanitize";
+export type { RegistryCssOutput, SerializeRegistryCssOptions } from "./registry-css";
+export { deriveShadowScale, resolveShadowVars } from "./shadows";
+export { createThemeSnapshot, getThemeScript } from "./theme-script";
+export type { ThemeScriptOptions, ThemeSnapshot } from "./theme-script";
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { scopeSelector, splitSelectorList } from "./registry-css";
+
+describe("splitSelectorList", () => {
+  test("splits on top-level commas only", () => {
+    expect(splitSelectorList(':is(a, b), [title="x, y"] p, .a\\,b, c')).toEqual([
+      ":is(a, b)",
+      '[title="x, y"] p',
+      ".a\\,b",
+      "c",
+    ]);
+  });
+});
+
+describe("scopeSelector", () => {
+  const scope = '[data-theme-scope="a"]';
+
+  test("maps the root to the scope element", () => {
+    expect(scopeSelector(":root, html, body", scope)).toBe(`${scope}, ${scope}, ${scope}`);
+    expect(scopeSelector(":root.dark", scope)).toBe(`${scope}.dark`);
+    expect(scopeSelector(".dark", scope)).toBe(`${scope}.dark`);
+  });
+
+  test("nests other selectors inside the scope", () => {
+    expect(scopeSelector(".card > p", scope)).toBe(`${scope} .card > p`);
+    expect(scopeSelector(".dark .card", scope)).toBe(`${scope}.dark .card`);
+    expect(scopeSelector("htmlx", scope)).toBe(`${scope} htmlx`);
+  });
+
+  test("scopes each selector in a list without splitting inside parentheses", () => {
+    expect(scopeSelector(':is(a, b), [title="x, y"] p', scope)).toBe(
+      `${scope} :is(a, b), ${scope} [title="x, y"] p`,
+    );
+  });
+});
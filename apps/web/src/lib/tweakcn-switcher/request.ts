@@ -0,0 +1,181 @@
+/**
+ * Fetch with cancellation, a per-attempt timeout and retries with exponential backoff
+ */
+
+import { ThemeFetchError } from "./errors";
+import type { RetryOptions, ThemeRequestInit, ThemeSourceOptions } from "./types";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 5_000;
+
+export type RequestOptions = Pick<
+  ThemeSourceOptions,
+  "signal" | "timeoutMs" | "retry" | "fetcher" | "requestInit"
+>;
+
+/**
+ * Whether an error comes from an aborted request rather than a failed one
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
+function createAbortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The theme request was aborted", "AbortError");
+}
+
+function resolveRetry(retry: RequestOptions["retry"]): Required<RetryOptions> {
+  const options = typeof retry === "number" ? { retries: retry } : (retry ?? {});
+  return {
+    retries: Math.max(0, options.retries ?? DEFAULT_RETRIES),
+    delayMs: options.delayMs ?? DEFAULT_RETRY_DELAY_MS,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
+  };
+}
+
+/**
+ * Rate limits and server errors are worth another attempt; other statuses won't change
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Conditional headers make cross-origin requests preflighted; registries that refuse the
+ * preflight fail with the same TypeError as a network error
+ */
+function withoutConditionalHeaders(init: RequestInit): RequestInit {
+  const headers = new Headers(init.headers);
+  headers.delete("If-None-Match");
+  headers.delete("If-Modified-Since");
+  return { ...init, headers };
+}
+
+/**
+ * Combine the configured request options with the ones a request needs
+ * Headers are merged, with the request's own winning.
+ */
+async function buildRequestInit(
+  url: string,
+  init: RequestInit,
+  requestInit: ThemeRequestInit | undefined,
+): Promise<RequestInit> {
+  const base = typeof requestInit === "function" ? await requestInit(url) : (requestInit ?? {});
+  const headers = new Headers(base.headers);
+  new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+  return { ...base, ...init, headers };
+}
+
+/**
+ * Statuses whose responses have no body to read
+ */
+function hasNoBody(status: number): boolean {
+  return status < 200 || status === 204 || status === 205 || status === 304;
+}
+
+/**
+ * One attempt, aborted by the caller's signal or after `timeoutMs`
+ * The body is read within the attempt, so a server that stalls mid-body is timed out
+ * and cancellable too; the returned response holds the buffered body.
+ */
+async function fetchAttempt(
+  url: string,
+  init: RequestInit,
+  options: RequestOptions,
+  timeoutMs: number,
+): Promise<Response> {
+  const { signal, fetcher = fetch } = options;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const requestInit = await buildRequestInit(url, init, options.requestInit);
+    const response = await fetcher(url, { ...requestInit, signal: controller.signal });
+    if (hasNoBody(response.status)) {
+      return response;
+    }
+    const body = await response.text();
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (e) {
+    if (timedOut) {
+      throw new ThemeFetchError(`Timed out after ${timeoutMs}ms fetching theme from ${url}`, {
+        code: "timeout",
+        source: url,
+      });
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Fetch a URL, retrying network errors, timeouts and 408/429/5xx responses
+ * Resolves once the body is read. The last response is returned once retries run out,
+ * so callers still see its status.
+ * Attempts after a network error drop conditional headers, in case a refused preflight caused it.
+ * Aborting the signal rejects immediately, also while waiting for the next attempt.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {},
+): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const { retries, delayMs, maxDelayMs } = resolveRetry(options.retry);
+  let attemptInit = init;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+    const isLastAttempt = attempt >= retries;
+
+    try {
+      const response = await fetchAttempt(url, attemptInit, options, timeoutMs);
+      if (isLastAttempt || !isRetryableStatus(response.status)) {
+        return response;
+      }
+    } catch (e) {
+      if (isLastAttempt || signal?.aborted || isAbortError(e)) {
+        throw e;
+      }
+      if (e instanceof TypeError) {
+        attemptInit = withoutConditionalHeaders(attemptInit);
+      }
+    }
+
+    await sleep(Math.min(delayMs * 2 ** attempt, maxDelayMs), signal);
+  }
+}
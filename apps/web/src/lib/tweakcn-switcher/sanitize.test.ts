@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { sanitizeRegistryItem } from "./sanitize";
+import type { ThemeRegistryItem } from "./types";
+
+const theme = (item: Partial<ThemeRegistryItem>): ThemeRegistryItem => ({
+  name: "test",
+  type: "registry:theme",
+  cssVars: {},
+  ...item,
+});
+
+describe("sanitizeRegistryItem", () => {
+  test("keeps ordinary values", () => {
+    const item = theme({
+      cssVars: {
+        light: { primary: "oklch(0.5 0.2 250)", "font-sans": '"Inter", sans-serif' },
+      },
+      css: { "@layer base": { body: { "letter-spacing": "var(--tracking)" } } },
+    });
+
+    expect(sanitizeRegistryItem(item)).toEqual({ item, issues: [] });
+  });
+
+  test("removes values that break out of the rule", () => {
+    const { item, issues } = sanitizeRegistryItem(
+      theme({
+        cssVars: {
+          light: {
+            primary: "red; } body { display: none",
+            escaped: "red\\3b  color: blue",
+            comment: "red /* x",
+            markup: '"</style><script>"',
+            unbalanced: "calc(1px",
+            trailing: "red\\",
+          },
+        },
+      }),
+    );
+
+    expect(item.cssVars.light).toEqual({});
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "cssVars.light.primary",
+      "cssVars.light.escaped",
+      "cssVars.light.comment",
+      "cssVars.light.markup",
+      "cssVars.light.unbalanced",
+      "cssVars.light.trailing",
+    ]);
+  });
+
+  test("allows structural characters inside quoted strings", () => {
+    const css = { ".a": { content: '"a;b { }"', quotes: "'/*' '*/'" } };
+    const { item, issues } = sanitizeRegistryItem(theme({ css }));
+
+    expect(issues).toEqual([]);
+    expect(item.css).toEqual(css);
+  });
+
+  test("doesn't treat escaped quotes as strings", () => {
+    const { issues } = sanitizeRegistryItem(
+      theme({ cssVars: { light: { font: '\\"a; color: red"' } } }),
+    );
+
+    expect(issues).toHaveLength(1);
+  });
+
+  test("removes scripting constructs", () => {
+    const { item, issues } = sanitizeRegistryItem(
+      theme({
+        css: {
+          ".a": {
+            color: "expression(alert(1))",
+            "background-image": "url(javascript:alert(1))",
+            behavior: "url(x.htc)",
+            "scroll-behavior": "smooth",
+          },
+          ".scroll-behavior-x": { color: "red" },
+        },
+      }),
+      { allowUrls: true },
+    );
+
+    expect(item.css).toEqual({
+      ".a": { "scroll-behavior": "smooth" },
+      ".scroll-behavior-x": { color: "red" },
+    });
+    expect(issues.map((issue) => issue.reason)).toEqual([
+      "contains a scripting construct",
+      "contains a scripting construct",
+      "contains a scripting construct",
+    ]);
+  });
+
+  test("removes external resources unless allowed", () => {
+    const css = {
+      '@import url("https://example.com/a.css")': {},
+      ".a": { "background-image": "url(https://example.com/a.png)" },
+    };
+
+    expect(sanitizeRegistryItem(theme({ css })).item.css).toEqual({ ".a": {} });
+    expect(
+      sanitizeRegistryItem(theme({ css }), { allowUrls: true, allowImports: true }).item.css,
+    ).toEqual(css);
+  });
+
+  test("removes unknown at-rules and invalid names", () => {
+    const { item, issues } = sanitizeRegistryItem(
+      theme({
+        cssVars: { theme: { "bad name": "1px" } },
+        css: { "@namespace svg": {}, ".a": { "bad property": "1" } },
+      }),
+    );
+
+    expect(item).toMatchObject({ cssVars: { theme: {} }, css: { ".a": {} } });
+    expect(issues.map((issue) => issue.reason)).toEqual([
+      "is not a valid variable name",
+      "@namespace is not allowed",
+      "is not a valid property name",
+    ]);
+  });
+});
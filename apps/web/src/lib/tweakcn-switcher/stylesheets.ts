@@ -0,0 +1,120 @@
+/**
+ * Injection of managed styles, either as `<style>` elements or constructable stylesheets
+ */
+
+import type { StyleInjectionOptions } from "./types";
+
+/**
+ * Constructable stylesheets adopted by the document, keyed by attribute and owner
+ */
+const adoptedSheets = new Map<string, CSSStyleSheet>();
+
+function getSheetKey(attribute: string, owner: string): string {
+  return `${attribute}=${owner}`;
+}
+
+function supportsAdoptedStyleSheets(): boolean {
+  return (
+    typeof document !== "undefined" &&
+    "adoptedStyleSheets" in document &&
+    typeof CSSStyleSheet !== "undefined" &&
+    "replaceSync" in CSSStyleSheet.prototype
+  );
+}
+
+/**
+ * Tag an injected element with the CSP nonce, if there is one
+ */
+export function setNonce(element: HTMLElement, nonce: string | undefined) {
+  if (nonce) {
+    element.setAttribute("nonce", nonce);
+  }
+}
+
+/**
+ * Managed style elements for an attribute, optionally only those of one owner
+ * Compares attribute values directly so owners never need selector escaping.
+ */
+function findStyleElements(attribute: string, owner?: string): HTMLStyleElement[] {
+  return [...document.querySelectorAll<HTMLStyleElement>(`style[${attribute}]`)].filter(
+    (style) => owner === undefined || style.getAttribute(attribute) === owner,
+  );
+}
+
+function removeAdoptedSheet(attribute: string, owner: string) {
+  const key = getSheetKey(attribute, owner);
+  const sheet = adoptedSheets.get(key);
+  if (!sheet) {
+    return;
+  }
+  adoptedSheets.delete(key);
+  document.adoptedStyleSheets = document.adoptedStyleSheets.filter((adopted) => adopted !== sheet);
+}
+
+/**
+ * Create or update the style tagged with an attribute and owner
+ * Reusing the element keeps its position in <head> and avoids a flash between remove and insert.
+ * Falls back to a `<style>` element where constructable stylesheets are not supported.
+ */
+export function upsertStyleElement(
+  attribute: string,
+  owner: string,
+  textContent: string,
+  options: StyleInjectionOptions = {},
+) {
+  if (options.styleInjection === "adopted" && supportsAdoptedStyleSheets()) {
+    findStyleElements(attribute, owner).forEach((style) => style.remove());
+
+    const key = getSheetKey(attribute, owner);
+    let sheet = adoptedSheets.get(key);
+    if (!sheet) {
+      sheet = new CSSStyleSheet();
+      adoptedSheets.set(key, sheet);
+      document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+    }
+    // Constructable stylesheets ignore @import rules
+    sheet.replaceSync(textContent);
+    return;
+  }
+
+  removeAdoptedSheet(attribute, owner);
+
+  let styleElement = findStyleElements(attribute, owner)[0];
+  if (!styleElement) {
+    styleElement = document.createElement("style");
+    styleElement.setAttribute(attribute, owner);
+    setNonce(styleElement, options.nonce);
+    document.head.appendChild(styleElement);
+  }
+  if (styleElement.textContent !== textContent) {
+    styleElement.textContent = textContent;
+  }
+}
+
+/**
+ * Remove the styles tagged with an attribute, for one owner or all of them
+ */
+export function removeStyleElements(attribute: string, owner?: string) {
+  findStyleElements(attribute, owner).forEach((style) => style.remove());
+
+  const prefix = getSheetKey(attribute, "");
+  [...adoptedSheets.keys()].forEach((key) => {
+    if (owner === undefined ? key.startsWith(prefix) : key === getSheetKey(attribute, owner)) {
+      removeAdoptedSheet(attribute, key.slice(prefix.length));
+    }
+  });
+}
+
+/**
+ * Owners that currently have a style for an attribute, across both injection modes
+ */
+export function getStyleOwners(attribute: string): string[] {
+  const prefix = getSheetKey(attribute, "");
+  const owners = findStyleElements(attribute).map((style) => style.getAttribute(attribute) ?? "");
+  [...adoptedSheets.keys()].forEach((key) => {
+    if (key.startsWith(prefix)) {
+      owners.push(key.slice(prefix.length));
+    }
+  });
+  return [...new Set(owners)];
+}
@@ -0,0 +1,124 @@
+/**
+ * Pre-hydration theme script
+ * The hook stores a compiled snapshot of the applied theme next to the persisted selection;
+ * the script replays it synchronously from `<head>` so reloads never flash the default theme.
+ */
+
+import { collectThemeFonts, getFontResolver, getFontVars } from "./fonts";
+import type { FontProvider, ThemeMode, ThemeRegistryItem } from "./types";
+import { compileThemeStylesheet } from "./utils";
+
+export const DEFAULT_STORAGE_KEY = "tweakcn-switcher-theme";
+
+export interface ThemeSnapshot {
+  /** Both modes compiled for the document root, plus inline @font-face rules */
+  css: string;
+  /** Font stylesheets to link before first paint */
+  fonts: { family: string; url: string }[];
+}
+
+/**
+ * Compile what the pre-hydration script needs to restore a theme without fetching it
+ */
+export function createThemeSnapshot(
+  registryItem: ThemeRegistryItem,
+  fontProvider?: FontProvider,
+): ThemeSnapshot {
+  // Doubled :root outranks the app's :root and .dark rules, whether its CSS loads before or after
+  const blocks = [compileThemeStylesheet(registryItem, { rootSelector: ":root:root" })];
+  const fonts: ThemeSnapshot["fonts"] = [];
+  const resolve = getFontResolver(fontProvider);
+
+  collectThemeFonts(getFontVars(registryItem.cssVars.theme)).forEach((font) => {
+    const source = resolve?.(font);
+    if (source?.type === "stylesheet") {
+      fonts.push({ family: font.family, url: source.url });
+    } else if (source?.type === "font-face") {
+      blocks.push(source.css);
+    }
+  });
+
+  return { css: blocks.join("\n\n"), fonts };
+}
+
+export interface ThemeScriptOptions {
+  /** Must match the hook's `storageKey`. Defaults to "tweakcn-switcher-theme" */
+  storageKey?: string;
+  /** Must match the hook's `defaultMode`. Defaults to "system" */
+  defaultMode?: ThemeMode;
+  /**
+   * Set the `.dark` class from the persisted mode. Turn off when another library
+   * such as next-themes already runs its own script. Defaults to true
+   */
+  applyMode?: boolean;
+  /** CSP nonce for the elements the script creates; also set it on the `<script>` tag itself */
+  nonce?: string;
+}
+
+/**
+ * Runs in the browser before the app bundle; must stay self-contained
+ */
+function restoreThemeSnapshot(
+  storageKey: string,
+  defaultMode: ThemeMode,
+  applyMode: boolean,
+  nonce: string,
+) {
+  try {
+    const root = document.documentElement;
+
+    if (applyMode) {
+      const mode = localStorage.getItem(`${storageKey}-mode`) || defaultMode;
+      const isDark =
+        mode === "dark" ||
+        (mode === "system" && window.matchMedia("(prefers-color-scheme: dark)").matches);
+      root.classList.toggle("dark", isDark);
+    }
+
+    const saved = JSON.parse(localStorage.getItem(storageKey) || "null");
+    const snapshot = saved && saved.snapshot;
+    if (!snapshot || typeof snapshot.css !== "string") {
+      return;
+    }
+
+    (snapshot.fonts || []).forEach((font: { family: string; url: string }) => {
+      const link = document.createElement("link");
+      link.rel = "stylesheet";
+      link.href = font.url;
+      link.setAttribute("data-tweakcn-switcher-font", "true");
+      link.setAttribute("data-font-family", font.family);
+      if (nonce) {
+        link.setAttribute("nonce", nonce);
+      }
+      document.head.appendChild(link);
+    });
+
+    const style = document.createElement("style");
+    style.setAttribute("data-tweakcn-switcher-snapshot", "true");
+    if (nonce) {
+      style.setAttribute("nonce", nonce);
+    }
+    style.textContent = snapshot.css;
+    document.head.appendChild(style);
+  } catch {
+    // Storage may be unavailable or hold an older format; the hook will apply the theme
+  }
+}
+
+/**
+ * Source of a blocking inline script that restores the persisted theme before first paint
+ * It must be in the HTML the server sends, e.g. inlined into `index.html` or rendered on the
+ * server; scripts a client-only app adds after mounting run too late.
+ */
+export function getThemeScript(options: ThemeScriptOptions = {}): string {
+  const {
+    storageKey = DEFAULT_STORAGE_KEY,
+    defaultMode = "system",
+    applyMode = true,
+    nonce = "",
+  } = options;
+  const args = [storageKey, defaultMode, applyMode, nonce]
+    .map((arg) => JSON.stringify(arg))
+    .join(",");
+  return `(${restoreThemeSnapshot.toString()})(${args})`;
+}
@@ -2,34 +2,312 @@
  * Type definitions for shadcn/ui theme registry format
  */
 
+import type { z } from "zod";
+import type { TweakcnError } from "./errors";
+import type { themeRegistryItemSchema } from "./schema";
+
 export interface ThemeRegistryCssVars {
   theme?: Record<string, string>;
   light?: Record<string, string>;
   dark?: Record<string, string>;
 }
 
-export interface ThemeRegistryItem {
-  $schema?: string;
-  name: string;
-  type: string;
-  css?: {
-    "@layer base"?: Record<string, Record<string, string>>;
-  };
-  cssVars: ThemeRegistryCssVars;
+/**
+ * The registry `css` object: selectors and at-rules (`@layer base`, `@keyframes spin`,
+ * `@utility name`, `@font-face`, ...) map to nested rules and properties map to values.
+ * Statements such as `@import "url"` or `@plugin "name"` use an empty object.
+ */
+export interface ThemeRegistryCss {
+  [key: string]: string | ThemeRegistryCss;
 }
 
+/**
+ * A validated registry item, as produced by `validateRegistryItem`
+ */
+export type ThemeRegistryItem = z.output<typeof themeRegistryItemSchema>;
+
 export interface ThemeOption {
   id: string;
   name: string;
   url?: string;
   css?: string;
   preview?: string;
+  /** Name of the catalog the theme was listed in; the switcher groups themes by it */
+  catalog?: string;
+}
+
+/**
+ * Themes listed in a shadcn `registry.json` index
+ */
+export interface ThemeCatalog {
+  /** The registry's `name`, or the index host when it has none */
+  name: string;
+  /** Resolved URL of the index */
+  url: string;
+  homepage?: string;
+  /** One option per `registry:theme` item; their JSON is fetched when applied or previewed */
+  themes: ThemeOption[];
 }
 
+export interface ThemeCatalogOptions {
+  /**
+   * Item URL template where `{name}` is replaced by the item name.
+   * Defaults to `{name}.json` next to the index, as `shadcn build` writes them.
+   */
+  itemUrl?: string;
+}
+
+/**
+ * Color mode chosen by the user. "system" follows `prefers-color-scheme`
+ */
+export type ThemeMode = "light" | "dark" | "system";
+
+/**
+ * Color mode actually applied to the page
+ */
+export type ResolvedThemeMode = "light" | "dark";
+
+/**
+ * External source of truth for the color mode, such as next-themes
+ * When set, the switcher reads and writes the mode through it instead of keeping its own
+ */
+export interface ThemeModeAdapter {
+  mode: ThemeMode;
+  resolvedMode: ResolvedThemeMode;
+  setMode: (mode: ThemeMode) => void;
+}
+
+export interface ThemeFont {
+  family: string;
+  weights: number[];
+  /** Tokens that reference this family, e.g. ["font-sans", "font-mono"] */
+  tokens: string[];
+}
+
+/**
+ * Where the files for a font family come from
+ * - stylesheet: a CSS URL containing @font-face rules (Google Fonts, Bunny Fonts, a CDN)
+ * - font-face: @font-face rules injected as-is
+ */
+export type FontSource = { type: "stylesheet"; url: string } | { type: "font-face"; css: string };
+
+/**
+ * Resolve a theme font to a source, or null to leave the family to the browser
+ */
+export type FontResolver = (font: ThemeFont) => FontSource | null;
+
+export interface LocalFontFace {
+  src: string;
+  weight?: number | string;
+  style?: string;
+  format?: string;
+}
+
+/**
+ * Self-hosted fonts, keyed by family name
+ * A string is the URL of a variable font; an array lists individual faces
+ */
+export interface LocalFontProvider {
+  type: "local";
+  fonts: Record<string, string | LocalFontFace[]>;
+}
+
+/**
+ * How theme fonts are loaded. Defaults to "google"; "none" disables font loading
+ */
+export type FontProvider = "google" | "bunny" | "none" | LocalFontProvider | FontResolver;
+
+/**
+ * When theme fonts are applied relative to the rest of the theme
+ * - "block": wait for fonts (up to the timeout) before applying the theme
+ * - "swap": apply everything immediately; text re-renders as fonts arrive
+ * - "defer": apply colors immediately and switch fonts once they have loaded
+ */
+export type FontLoadingStrategy = "block" | "swap" | "defer";
+
+export interface FontLoadingOptions {
+  /** Defaults to "block" */
+  strategy?: FontLoadingStrategy;
+  /** Longest time to wait for a family before giving up on it. Defaults to 3000ms */
+  timeoutMs?: number;
+  /** Add `<link rel="preload">` hints for font stylesheets. Defaults to true */
+  preload?: boolean;
+}
+
+export interface FontLoadFailure {
+  family: string;
+  url?: string;
+  /** "not-found" means the source loaded but did not define the family */
+  reason: "error" | "timeout" | "not-found";
+}
+
+/**
+ * How a theme is written to the DOM
+ * - "inline": variables are set as inline style properties on the target (default)
+ * - "stylesheet": the theme is compiled into one managed <style> element holding both modes
+ */
+export type ThemeEngine = "inline" | "stylesheet";
+
+/**
+ * When themes are fetched ahead of being applied
+ * - "intent": when a theme in the list is hovered or focused (default)
+ * - "idle": on intent, and all `defaultThemes` once the browser is idle
+ * - false: only when applied
+ */
+export type ThemePrefetch = "intent" | "idle" | false;
+
 export interface TweakcnSwitcherConfig {
   defaultThemes?: ThemeOption[];
   baseUrl?: string;
   persist?: boolean;
   storageKey?: string;
   allowDeleteDefaults?: boolean;
+  engine?: ThemeEngine;
+  defaultMode?: ThemeMode;
+  modeAdapter?: ThemeModeAdapter;
+  fontProvider?: FontProvider;
+  fontLoading?: FontLoadingOptions;
+  nonce?: string;
+  styleInjection?: StyleInjection;
+  sanitize?: boolean | SanitizeOptions;
+  cache?: boolean | ThemeCache;
+  /** Per-attempt timeout for theme fetches. Defaults to 15000ms */
+  fetchTimeoutMs?: number;
+  /** Retries for theme fetches that fail transiently. Defaults to 2 */
+  fetchRetry?: number | RetryOptions;
+  /** When theme URLs are fetched into the cache ahead of a click. Defaults to "intent" */
+  prefetch?: ThemePrefetch;
+  /** Replaces the global `fetch` for every theme request, e.g. to go through a proxy */
+  fetcher?: ThemeFetcher;
+  /** Options for every theme request, e.g. an auth header; may be a (async) function of the URL */
+  requestInit?: ThemeRequestInit;
+  /** Turn pasted inputs into theme JSON URLs; tried before the built-in resolvers */
+  sourceResolvers?: ThemeSourceResolver[];
+  /** URL templates for `@namespace/name` inputs, e.g. { "@acme": "https://acme.com/r/{name}.json" } */
+  registries?: Record<string, string>;
+  /** A shadcn `registry.json` whose themes are added as a catalog on mount */
+  catalogUrl?: string;
+  /** Called with every error that also lands in `error`, and with fonts that failed to load */
+  onError?: (error: TweakcnError) => void;
+}
+
+export interface SanitizeIssue {
+  /** Where the entry was, e.g. "cssVars.light.primary" or "css > @layer base > body" */
+  path: string;
+  value: string;
+  reason: string;
+}
+
+export interface SanitizeOptions {
+  /** Keep `url()` and other resource-loading functions in values. Defaults to false */
+  allowUrls?: boolean;
+  /** Keep `@import`, `@plugin` and other external at-rules. Defaults to false */
+  allowImports?: boolean;
+  /** Called with the removed entries; they are logged as a warning otherwise */
+  onIssues?: (issues: SanitizeIssue[], registryItem: ThemeRegistryItem) => void;
+}
+
+export interface CachedRegistryItem {
+  /** The registry item JSON as fetched, before merging and sanitizing */
+  item: unknown;
+  etag?: string;
+  /** Epoch milliseconds of the last successful fetch or revalidation */
+  fetchedAt: number;
+}
+
+/**
+ * Persistent backend of a theme cache
+ */
+export interface ThemeCacheStorage {
+  get: (key: string) => Promise<CachedRegistryItem | undefined>;
+  set: (key: string, entry: CachedRegistryItem) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface ThemeCacheOptions {
+  /** Defaults to "indexeddb", falling back to "localstorage" where IndexedDB is missing */
+  storage?: "indexeddb" | "localstorage" | "memory" | ThemeCacheStorage;
+  /** How long an entry is used without revalidating, in milliseconds. Defaults to one hour */
+  ttl?: number;
+}
+
+export interface ThemeCache extends ThemeCacheStorage {
+  ttl: number;
+}
+
+/**
+ * Map a pasted theme source to a fetchable JSON URL, or return null to leave it to the next resolver
+ */
+export type ThemeSourceResolver = (input: string) => string | null | undefined;
+
+/**
+ * Stand-in for `fetch` used for theme requests
+ */
+export type ThemeFetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Request options, or a function that builds them per request (e.g. with a fresh token)
+ * The switcher adds its own `signal` and conditional headers on top.
+ */
+export type ThemeRequestInit = RequestInit | ((url: string) => RequestInit | Promise<RequestInit>);
+
+export interface RetryOptions {
+  /** Attempts after the first one. Defaults to 2 */
+  retries?: number;
+  /** Wait before the first retry, doubled for each one after it. Defaults to 500ms */
+  delayMs?: number;
+  /** Upper bound for the wait between attempts. Defaults to 5000ms */
+  maxDelayMs?: number;
+}
+
+export interface ThemeSourceOptions {
+  /**
+   * Sanitize themes loaded from URLs and CSS before they reach the DOM.
+   * Defaults to true; pass false only for trusted sources.
+   */
+  sanitize?: boolean | SanitizeOptions;
+  /** Cache fetched registry items. Defaults to a shared IndexedDB cache; false disables it */
+  cache?: boolean | ThemeCache;
+  /** Cancels the fetch, including retries still waiting; aborted fetches never fall back to the cache */
+  signal?: AbortSignal;
+  /** Give up on an attempt after this long. Defaults to 15000ms */
+  timeoutMs?: number;
+  /** Retries after network errors, timeouts and 429/5xx responses. Defaults to 2 */
+  retry?: number | RetryOptions;
+  /** Used instead of the global `fetch` */
+  fetcher?: ThemeFetcher;
+  requestInit?: ThemeRequestInit;
+  sourceResolvers?: ThemeSourceResolver[];
+  registries?: Record<string, string>;
+}
+
+/**
+ * How managed styles are injected
+ * - "element": `<style>` elements in `<head>`
+ * - "adopted": constructable stylesheets on `document.adoptedStyleSheets`, which need no
+ *   `style-src` nonce. `@import` rules are ignored in this mode.
+ */
+export type StyleInjection = "element" | "adopted";
+
+export interface StyleInjectionOptions {
+  /** CSP nonce set on every injected `<style>` and `<link>` element */
+  nonce?: string;
+  /** Defaults to "element" */
+  styleInjection?: StyleInjection;
+}
+
+export interface ApplyThemeOptions extends StyleInjectionOptions {
+  /**
+   * Element that receives the theme variables and `.dark` class.
+   * Defaults to `document.documentElement`; any other element gets a scoped theme.
+   */
+  target?: HTMLElement;
+  engine?: ThemeEngine;
+  fontProvider?: FontProvider;
+  fontLoading?: FontLoadingOptions;
+  /** Called with the families that failed to load, whatever the loading strategy */
+  onFontError?: (failures: FontLoadFailure[]) => void;
+  /** Leave the page untouched if aborted before the theme is written, e.g. while fonts load */
+  signal?: AbortSignal;
 }
@@ -3,45 +3,163 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { ThemeRegistryItem, ThemeOption, TweakcnSwitcherConfig } from "./types";
+import type {
+  FontLoadFailure,
+  ResolvedThemeMode,
+  ThemeMode,
+  ThemeRegistryItem,
+  ThemeCatalog,
+  ThemeCatalogOptions,
+  ThemeOption,
+  ThemeSourceOptions,
+  TweakcnSwitcherConfig,
+} from "./types";
 import {
+  applyMode,
   applyThemeFromRegistry,
   fetchThemeFromUrl,
   extractThemeNameFromUrl,
+  fetchThemeCatalog,
+  getSystemMode,
   validateUrl,
   parseCssToThemeRegistryItem,
   isCssCode,
   normalizeTweakcnUrl,
+  resolveThemeOption,
+  revertTheme,
+  SYSTEM_DARK_QUERY,
 } from "./utils";
+import { FontLoadError, toTweakcnError } from "./errors";
+import type { TweakcnError } from "./errors";
+import { isAbortError } from "./request";
+import { createThemeSnapshot, DEFAULT_STORAGE_KEY } from "./theme-script";
+
+/**
+ * How an apply call ended
+ * - "applied": the theme is on the page and selected
+ * - "superseded": a newer apply, a reset or unmount took over before it finished
+ * - "failed": loading or applying threw; the message is in `error`
+ */
+export type ApplyThemeStatus = "applied" | "superseded" | "failed";
 
 export interface UseTweakcnSwitcherReturn {
   currentTheme: ThemeOption | null;
   themes: ThemeOption[];
   isLoading: boolean;
-  error: string | null;
-  applyTheme: (url: string) => Promise<void>;
-  applyThemeOption: (theme: ThemeOption) => Promise<void>;
+  error: TweakcnError | null;
+  fontErrors: FontLoadFailure[];
+  /** Whether resetTheme has anything to undo, including a theme restored before mount */
+  canReset: boolean;
+  /** Latest call wins; earlier calls still in flight are cancelled and resolve to "superseded" */
+  applyTheme: (url: string) => Promise<ApplyThemeStatus>;
+  applyThemeOption: (theme: ThemeOption) => Promise<ApplyThemeStatus>;
   addTheme: (url: string, name?: string) => Promise<ThemeOption | null>;
+  /** Add every theme of a shadcn `registry.json`; resolves to null when cancelled */
+  addCatalog: (url: string, options?: ThemeCatalogOptions) => Promise<ThemeCatalog | null>;
+  /** Fetch a URL theme into the cache so applying it later skips the network */
+  prefetchTheme: (theme: ThemeOption) => Promise<void>;
+  /** Load a theme without applying it; resolves to null when superseded or cancelled */
+  previewTheme: (theme: ThemeOption) => Promise<ThemeRegistryItem | null>;
+  cancelPreview: () => void;
   removeTheme: (themeId: string) => void;
-  mode: "light" | "dark";
-  setMode: (mode: "light" | "dark") => void;
+  resetTheme: () => void;
+  mode: ThemeMode;
+  resolvedMode: ResolvedThemeMode;
+  setMode: (mode: ThemeMode) => void;
   favorites: string[];
   toggleFavorite: (themeId: string) => void;
   isFavorite: (themeId: string) => boolean;
 }
 
-const DEFAULT_STORAGE_KEY = "tweakcn-switcher-theme";
 const DEFAULT_FAVORITES_KEY = "tweakcn-switcher-favorites";
 
 export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweakcnSwitcherReturn {
-  const { defaultThemes = [], persist = true, storageKey = DEFAULT_STORAGE_KEY } = config;
+  const {
+    defaultThemes = [],
+    persist = true,
+    storageKey = DEFAULT_STORAGE_KEY,
+    engine = "inline",
+    defaultMode = "system",
+    modeAdapter,
+    fontProvider,
+    fontLoading,
+    nonce,
+    styleInjection,
+    sanitize,
+    cache,
+    fetchTimeoutMs,
+    fetchRetry,
+    prefetch = "intent",
+    fetcher,
+    requestInit,
+    sourceResolvers,
+    registries,
+    catalogUrl,
+    onError,
+  } = config;
   const favoritesKey = `${storageKey}-favorites`;
+  const modeKey = `${storageKey}-mode`;
 
   const [themes, setThemes] = useState<ThemeOption[]>(defaultThemes);
   const [currentTheme, setCurrentTheme] = useState<ThemeOption | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [mode, setMode] = useState<"light" | "dark">("light");
+  const [error, setError] = useState<TweakcnError | null>(null);
+  const [fontErrors, setFontErrors] = useState<FontLoadFailure[]>([]);
+  // A persisted theme or the snapshot getThemeScript() restored is on the page before any apply
+  const [hasStoredTheme, setHasStoredTheme] = useState(() => {
+    if (typeof window === "undefined") {
+      return false;
+    }
+    try {
+      return (
+        !!document.querySelector("[data-tweakcn-switcher-snapshot]") ||
+        (persist && !!localStorage.getItem(storageKey))
+      );
+    } catch {
+      return false;
+    }
+  });
+  const [storedMode, setStoredMode] = useState<ThemeMode>(() => {
+    if (persist && !modeAdapter && typeof window !== "undefined") {
+      try {
+        const savedMode = localStorage.getItem(modeKey);
+        if (savedMode === "light" || savedMode === "dark" || savedMode === "system") {
+          return savedMode;
+        }
+        // Older versions stored the resolved mode next to the theme
+        const savedTheme = localStorage.getItem(storageKey);
+        if (savedTheme) {
+          const { mode: legacyMode } = JSON.parse(savedTheme);
+          if (legacyMode === "light" || legacyMode === "dark") {
+            // Move it to its own key; the next saved theme no longer carries it
+            localStorage.setItem(modeKey, legacyMode);
+            return legacyMode;
+          }
+        }
+      } catch (e) {
+        console.error("Failed to load mode:", e);
+      }
+    }
+    return defaultMode;
+  });
+  // Until a mode is stored or picked, the `.dark` class is left to the host app
+  const [hasModeChoice, setHasModeChoice] = useState(() => {
+    try {
+      return (
+        persist && !modeAdapter && typeof window !== "undefined" && !!localStorage.getItem(modeKey)
+      );
+    } catch {
+      return false;
+    }
+  });
+  const [systemMode, setSystemMode] = useState<ResolvedThemeMode>(getSystemMode);
+  // An adapter owns the mode entirely; otherwise resolve our own choice
+  const mode = modeAdapter ? modeAdapter.mode : storedMode;
+  const resolvedMode = modeAdapter
+    ? modeAdapter.resolvedMode
+    : storedMode === "system"
+      ? systemMode
+      : storedMode;
   const [currentRegistryItem, setCurrentRegistryItem] = useState<ThemeRegistryItem | null>(null);
   const [favorites, setFavorites] = useState<string[]>(() => {
     if (persist && typeof window !== "undefined") {
@@ -57,21 +175,95 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
     return [];
   });
   const isInitialMount = useRef(true);
-  const modeRef = useRef(mode);
-  const isApplyingRef = useRef(false);
+  const modeRef = useRef(resolvedMode);
+  // null until the mode is first applied
+  const appliedModeRef = useRef<ResolvedThemeMode | null>(null);
+  // Options that are often passed inline live in refs so they don't re-trigger effects
+  const fontProviderRef = useRef(fontProvider);
+  fontProviderRef.current = fontProvider;
+  const fontLoadingRef = useRef(fontLoading);
+  fontLoadingRef.current = fontLoading;
+  const sourceOptionsRef = useRef<ThemeSourceOptions>({});
+  sourceOptionsRef.current = {
+    sanitize,
+    cache,
+    timeoutMs: fetchTimeoutMs,
+    retry: fetchRetry,
+    fetcher,
+    requestInit,
+    sourceResolvers,
+    registries,
+  };
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const defaultThemesRef = useRef(defaultThemes);
+  defaultThemesRef.current = defaultThemes;
+  // In-flight fetches by kind; starting a new one aborts the one it supersedes
+  const requestsRef = useRef(new Map<string, AbortController>());
+  // URLs being prefetched, so repeated hovers don't stack requests
+  const prefetchingRef = useRef(new Set<string>());
+
+  const startRequest = useCallback((key: string) => {
+    requestsRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    requestsRef.current.set(key, controller);
+    return controller;
+  }, []);
+
+  const finishRequest = useCallback((key: string, controller: AbortController) => {
+    if (requestsRef.current.get(key) === controller) {
+      requestsRef.current.delete(key);
+    }
+  }, []);
+
+  const cancelRequest = useCallback((key: string) => {
+    requestsRef.current.get(key)?.abort();
+    requestsRef.current.delete(key);
+  }, []);
+
+  const reportError = useCallback((err: unknown, fallbackMessage: string) => {
+    const tweakcnError = toTweakcnError(err, fallbackMessage);
+    setError(tweakcnError);
+    onErrorRef.current?.(tweakcnError);
+    return tweakcnError;
+  }, []);
+
+  const handleFontError = useCallback((failures: FontLoadFailure[]) => {
+    setFontErrors(failures);
+    onErrorRef.current?.(new FontLoadError(failures));
+  }, []);
+
+  // Abort everything still in flight on unmount
+  useEffect(() => {
+    const requests = requestsRef.current;
+    return () => {
+      requests.forEach((controller) => controller.abort());
+      requests.clear();
+    };
+  }, []);
+
+  // Keep modeRef in sync with the resolved mode
+  useEffect(() => {
+    modeRef.current = resolvedMode;
+  }, [resolvedMode]);
 
-  // Keep modeRef in sync with mode state
+  // Follow operating system changes while in system mode
   useEffect(() => {
-    modeRef.current = mode;
-  }, [mode]);
+    if (modeAdapter || mode !== "system" || typeof window.matchMedia !== "function") {
+      return;
+    }
+    const mediaQuery = window.matchMedia(SYSTEM_DARK_QUERY);
+    const handleChange = () => setSystemMode(mediaQuery.matches ? "dark" : "light");
+    handleChange();
+    mediaQuery.addEventListener("change", handleChange);
+    return () => mediaQuery.removeEventListener("change", handleChange);
+  }, [mode, modeAdapter]);
 
   const applyTheme = useCallback(
-    async (urlOrCss: string, overrideMode?: "light" | "dark") => {
-      // Prevent concurrent theme applications
-      if (isApplyingRef.current) {
-        return;
-      }
-      isApplyingRef.current = true;
+    async (urlOrCss: string): Promise<ApplyThemeStatus> => {
+      // Supersedes the apply still in flight, if any
+      const controller = startRequest("apply");
+      const { signal } = controller;
       setIsLoading(true);
       setError(null);
 
@@ -83,7 +275,11 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
 
         if (isCssCode(urlOrCss)) {
           // Handle CSS code
-          registryItem = parseCssToThemeRegistryItem(urlOrCss, "custom-css-theme");
+          registryItem = parseCssToThemeRegistryItem(
+            urlOrCss,
+            "custom-css-theme",
+            sourceOptionsRef.current,
+          );
           themeName = registryItem.name;
           themeId = `css-theme-${Date.now()}`;
 
@@ -94,8 +290,11 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
           };
         } else {
           // Handle URL - normalize editor URLs to JSON URLs
-          const normalizedUrl = normalizeTweakcnUrl(urlOrCss);
-          registryItem = await fetchThemeFromUrl(normalizedUrl);
+          const normalizedUrl = normalizeTweakcnUrl(urlOrCss, sourceOptionsRef.current);
+          registryItem = await fetchThemeFromUrl(normalizedUrl, {
+            ...sourceOptionsRef.current,
+            signal,
+          });
           themeName = registryItem.name || extractThemeNameFromUrl(normalizedUrl);
           themeId = `theme-${themeName}`;
 
@@ -106,17 +305,35 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
           };
         }
 
+        if (signal.aborted) {
+          return "superseded";
+        }
+        setFontErrors([]);
+        await applyThemeFromRegistry(registryItem, modeRef.current, {
+          engine,
+          fontProvider: fontProviderRef.current,
+          fontLoading: fontLoadingRef.current,
+          onFontError: handleFontError,
+          nonce,
+          styleInjection,
+          signal,
+        });
+        if (signal.aborted) {
+          return "superseded";
+        }
+        // Only the winning apply becomes current, so the mode effect never revives a stale theme
         setCurrentRegistryItem(registryItem);
-        const currentMode = overrideMode ?? modeRef.current;
-        await applyThemeFromRegistry(registryItem, currentMode);
 
         setThemes((prev) => {
           // Check if theme already exists (by URL or CSS content)
           // Normalize URLs for comparison
-          const normalizedInputUrl = isCssCode(urlOrCss) ? urlOrCss : normalizeTweakcnUrl(urlOrCss);
+          const normalizedInputUrl = isCssCode(urlOrCss)
+            ? urlOrCss
+            : normalizeTweakcnUrl(urlOrCss, sourceOptionsRef.current);
           const existing = prev.find(
             (t) =>
-              (t.url && normalizeTweakcnUrl(t.url) === normalizedInputUrl) ||
+              (t.url &&
+                normalizeTweakcnUrl(t.url, sourceOptionsRef.current) === normalizedInputUrl) ||
               (t.css && t.css === urlOrCss),
           );
           if (!existing) {
@@ -134,21 +351,40 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
             storageKey,
             JSON.stringify({
               ...(isCssCode(urlOrCss) ? { css: urlOrCss } : { url: themeOption.url }),
-              mode: currentMode,
               name: themeName,
+              // Replayed by getThemeScript() before first paint on the next load
+              snapshot: createThemeSnapshot(registryItem, fontProviderRef.current),
             }),
           );
         }
+        return "applied";
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Failed to apply theme";
-        setError(errorMessage);
+        // Cancelled by a newer apply, a reset or unmount, not a failure
+        if (signal.aborted || isAbortError(err)) {
+          return "superseded";
+        }
+        reportError(err, "Failed to apply theme");
         console.error("Failed to apply theme:", err);
+        return "failed";
       } finally {
-        setIsLoading(false);
-        isApplyingRef.current = false;
+        finishRequest("apply", controller);
+        // A newer apply keeps the loading state until it settles itself
+        if (!requestsRef.current.has("apply")) {
+          setIsLoading(false);
+        }
       }
     },
-    [persist, storageKey],
+    [
+      persist,
+      storageKey,
+      engine,
+      nonce,
+      styleInjection,
+      startRequest,
+      finishRequest,
+      reportError,
+      handleFontError,
+    ],
   );
 
   // Load persisted theme on mount only
@@ -156,41 +392,39 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
     if (persist && isInitialMount.current) {
       isInitialMount.current = false;
       const saved = localStorage.getItem(storageKey);
+      // Drop the saved theme along with the snapshot restored from it
+      const clearSavedTheme = () => {
+        localStorage.removeItem(storageKey);
+        revertTheme();
+        setHasStoredTheme(false);
+      };
+      const applySavedTheme = (urlOrCss: string) => {
+        applyTheme(urlOrCss).then((status) => {
+          if (status === "failed") {
+            console.error("Failed to load saved theme, clearing it");
+            clearSavedTheme();
+          }
+        });
+      };
       if (saved) {
         try {
           const savedTheme = JSON.parse(saved);
-          if (savedTheme.mode) {
-            setMode(savedTheme.mode);
-          }
-          if (savedTheme.url || savedTheme.css) {
-            if (savedTheme.css) {
-              // Apply CSS theme
-              applyTheme(savedTheme.css, savedTheme.mode).catch((err) => {
-                console.error("Failed to load saved theme:", err);
-                // Clear invalid saved theme
-                localStorage.removeItem(storageKey);
-              });
-            } else if (savedTheme.url) {
-              // Validate URL before attempting to apply
-              const validation = validateUrl(savedTheme.url);
-              if (validation.valid) {
-                // Apply theme with the saved mode
-                applyTheme(savedTheme.url, savedTheme.mode).catch((err) => {
-                  console.error("Failed to load saved theme:", err);
-                  // Clear invalid saved theme
-                  localStorage.removeItem(storageKey);
-                });
-              } else {
-                // Clear invalid saved theme
-                console.warn("Invalid saved theme URL, clearing:", validation.error);
-                localStorage.removeItem(storageKey);
-              }
+          if (savedTheme.css) {
+            applySavedTheme(savedTheme.css);
+          } else if (savedTheme.url) {
+            // Validate URL before attempting to apply
+            const validation = validateUrl(savedTheme.url);
+            if (validation.valid) {
+              applySavedTheme(savedTheme.url);
+            } else {
+              console.warn("Invalid saved theme URL, clearing:", validation.error);
+              clearSavedTheme();
             }
           }
         } catch (e) {
           console.error("Failed to load saved theme:", e);
           // Clear corrupted saved theme
-          localStorage.removeItem(storageKey);
+          clearSavedTheme();
         }
       } else {
         isInitialMount.current = false;
@@ -200,53 +434,67 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
 
   // Apply mode changes to current theme
   useEffect(() => {
-    if (currentRegistryItem) {
-      applyThemeFromRegistry(currentRegistryItem, mode).catch(console.error);
-      // Update localStorage with new mode if persist is enabled
-      if (persist && currentTheme) {
-        const saved = localStorage.getItem(storageKey);
-        if (saved) {
-          try {
-            const savedTheme = JSON.parse(saved);
-            localStorage.setItem(
-              storageKey,
-              JSON.stringify({
-                ...savedTheme,
-                mode,
-                ...(currentTheme.css ? { css: currentTheme.css } : {}),
-                ...(currentTheme.url ? { url: currentTheme.url } : {}),
-              }),
-            );
-          } catch (e) {
-            console.error("Failed to update saved theme mode:", e);
-          }
-        }
+    const modeChanged = appliedModeRef.current !== resolvedMode;
+    if (!currentRegistryItem) {
+      // Without a theme only the class needs to follow the mode, unless the adapter or the
+      // host app handles it
+      if (modeChanged && !modeAdapter && hasModeChoice) {
+        applyMode(resolvedMode);
+        appliedModeRef.current = resolvedMode;
       }
+      return;
     }
-  }, [mode, currentRegistryItem, persist, storageKey, currentTheme]);
+    appliedModeRef.current = resolvedMode;
+    if (engine === "stylesheet") {
+      // The managed stylesheet already holds both modes
+      applyMode(resolvedMode);
+    } else {
+      applyThemeFromRegistry(currentRegistryItem, resolvedMode, {
+        engine,
+        fontProvider: fontProviderRef.current,
+        fontLoading: fontLoadingRef.current,
+        onFontError: handleFontError,
+        nonce,
+        styleInjection,
+      }).catch(console.error);
+    }
+  }, [
+    resolvedMode,
+    currentRegistryItem,
+    engine,
+    modeAdapter,
+    nonce,
+    styleInjection,
+    handleFontError,
+    hasModeChoice,
+  ]);
 
   const applyThemeOption = useCallback(
-    async (theme: ThemeOption) => {
-      // Prevent applying the same theme if it's already the current theme
+    async (theme: ThemeOption): Promise<ApplyThemeStatus> => {
+      // Picking the current theme again only drops a pending switch away from it
       if (currentTheme?.id === theme.id) {
-        return;
-      }
-      // Prevent applying if already loading or applying
-      if (isLoading || isApplyingRef.current) {
-        return;
+        if (requestsRef.current.has("apply")) {
+          cancelRequest("apply");
+          setIsLoading(false);
+        }
+        return "applied";
       }
       if (theme.css) {
-        await applyTheme(theme.css);
-      } else if (theme.url) {
-        await applyTheme(theme.url);
+        return applyTheme(theme.css);
       }
+      if (theme.url) {
+        return applyTheme(theme.url);
+      }
+      return "failed";
     },
-    [applyTheme, currentTheme, isLoading],
+    [applyTheme, currentTheme, cancelRequest],
   );
 
   const addTheme = useCallback(
     async (urlOrCss: string, name?: string): Promise<ThemeOption | null> => {
       setError(null); // Clear any previous errors
+      const controller = startRequest("add");
+      const { signal } = controller;
       try {
         let registryItem: ThemeRegistryItem;
         let themeName: string;
@@ -255,7 +503,11 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
 
         if (isCssCode(urlOrCss)) {
           // Handle CSS code
-          registryItem = parseCssToThemeRegistryItem(urlOrCss, name || "custom-css-theme");
+          registryItem = parseCssToThemeRegistryItem(
+            urlOrCss,
+            name || "custom-css-theme",
+            sourceOptionsRef.current,
+          );
           themeName = name || registryItem.name;
           themeId = `css-theme-${Date.now()}`;
 
@@ -266,8 +518,11 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
           };
         } else {
           // Handle URL - normalize editor URLs to JSON URLs
-          const normalizedUrl = normalizeTweakcnUrl(urlOrCss);
-          registryItem = await fetchThemeFromUrl(normalizedUrl);
+          const normalizedUrl = normalizeTweakcnUrl(urlOrCss, sourceOptionsRef.current);
+          registryItem = await fetchThemeFromUrl(normalizedUrl, {
+            ...sourceOptionsRef.current,
+            signal,
+          });
           themeName = name || registryItem.name || extractThemeNameFromUrl(normalizedUrl);
           themeId = `theme-${themeName}`;
 
@@ -277,15 +532,21 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
             url: normalizedUrl,
           };
         }
+        if (signal.aborted) {
+          return null;
+        }
 
         setThemes((prev) => {
           // Check if theme already exists (by URL or CSS content)
           // Normalize URLs for comparison
-          const normalizedInputUrl = isCssCode(urlOrCss) ? urlOrCss : normalizeTweakcnUrl(urlOrCss);
+          const normalizedInputUrl = isCssCode(urlOrCss)
+            ? urlOrCss
+            : normalizeTweakcnUrl(urlOrCss, sourceOptionsRef.current);
           if (
             prev.some(
               (t) =>
-                (t.url && normalizeTweakcnUrl(t.url) === normalizedInputUrl) ||
+                (t.url &&
+                  normalizeTweakcnUrl(t.url, sourceOptionsRef.current) === normalizedInputUrl) ||
                 (t.css && t.css === urlOrCss),
             )
           ) {
@@ -296,20 +557,169 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
 
         return newTheme;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Failed to add theme";
-        setError(errorMessage);
+        if (signal.aborted || isAbortError(err)) {
+          return null;
+        }
+        throw reportError(err, "Failed to add theme");
+      } finally {
+        finishRequest("add", controller);
+      }
+    },
+    [startRequest, finishRequest, reportError],
+  );
+
+  const previewTheme = useCallback(
+    async (theme: ThemeOption): Promise<ThemeRegistryItem | null> => {
+      const controller = startRequest("preview");
+      const { signal } = controller;
+      try {
+        const registryItem = await resolveThemeOption(theme, {
+          ...sourceOptionsRef.current,
+          signal,
+        });
+        return signal.aborted ? null : registryItem;
+      } catch (err) {
+        if (signal.aborted || isAbortError(err)) {
+          return null;
+        }
         throw err;
+      } finally {
+        finishRequest("preview", controller);
+      }
+    },
+    [startRequest, finishRequest],
+  );
+
+  const cancelPreview = useCallback(() => cancelRequest("preview"), [cancelRequest]);
+
+  const prefetchTheme = useCallback(
+    async (theme: ThemeOption) => {
+      // CSS themes are parsed locally, and without a cache there is nowhere to keep the result
+      if (!theme.url || sourceOptionsRef.current.cache === false) {
+        return;
+      }
+      const url = normalizeTweakcnUrl(theme.url, sourceOptionsRef.current);
+      if (prefetchingRef.current.has(url)) {
+        return;
+      }
+      prefetchingRef.current.add(url);
+      // Prefetches share one controller that lives until unmount; they never supersede each other
+      const controller = requestsRef.current.get("prefetch") ?? startRequest("prefetch");
+      try {
+        // Only the cache entry matters, so sanitizing (and its warnings) waits for the real apply
+        await fetchThemeFromUrl(url, {
+          ...sourceOptionsRef.current,
+          sanitize: false,
+          signal: controller.signal,
+        });
+      } catch {
+        // Applying the theme fetches it again and reports the error there
+      } finally {
+        prefetchingRef.current.delete(url);
       }
     },
-    [],
+    [startRequest],
   );
 
+  // Warm the cache with the default themes once the browser has nothing better to do
+  useEffect(() => {
+    if (prefetch !== "idle" || typeof window === "undefined") {
+      return;
+    }
+    let cancelled = false;
+    const prefetchDefaults = async () => {
+      for (const theme of defaultThemesRef.current) {
+        if (cancelled) {
+          return;
+        }
+        await prefetchTheme(theme);
+      }
+    };
+    if (typeof window.requestIdleCallback === "function") {
+      const handle = window.requestIdleCallback(() => void prefetchDefaults());
+      return () => {
+        cancelled = true;
+        window.cancelIdleCallback(handle);
+      };
+    }
+    const timer = setTimeout(() => void prefetchDefaults(), 1000);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [prefetch, prefetchTheme]);
+
+  const addCatalog = useCallback(
+    async (url: string, options?: ThemeCatalogOptions): Promise<ThemeCatalog | null> => {
+      setError(null);
+      // Catalogs share one controller that lives until unmount, like prefetches
+      const controller = requestsRef.current.get("catalog") ?? startRequest("catalog");
+      try {
+        const catalog = await fetchThemeCatalog(url, {
+          ...sourceOptionsRef.current,
+          ...options,
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) {
+          return null;
+        }
+
+        setThemes((prev) => {
+          const getKey = (theme: ThemeOption) =>
+            theme.url ? normalizeTweakcnUrl(theme.url, sourceOptionsRef.current) : null;
+          const catalogKeys = new Map(catalog.themes.map((theme) => [getKey(theme), theme]));
+          // Themes already in the list (e.g. restored from storage) keep their id but join the catalog
+          const updated = prev.map((theme) => {
+            const listed = catalogKeys.get(getKey(theme));
+            return listed && !theme.catalog ? { ...theme, catalog: listed.catalog } : theme;
+          });
+          const existingKeys = new Set(prev.map(getKey));
+          return [
+            ...updated,
+            ...catalog.themes.filter((theme) => !existingKeys.has(getKey(theme))),
+          ];
+        });
+
+        return catalog;
+      } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) {
+          return null;
+        }
+        throw reportError(err, "Failed to load catalog");
+      }
+    },
+    [startRequest, reportError],
+  );
+
+  useEffect(() => {
+    if (catalogUrl) {
+      addCatalog(catalogUrl).catch((err) => {
+        console.error("Failed to load theme catalog:", err);
+      });
+    }
+  }, [catalogUrl, addCatalog]);
+
+  const resetTheme = useCallback(() => {
+    cancelRequest("apply");
+    setIsLoading(false);
+    revertTheme();
+    setCurrentTheme(null);
+    setCurrentRegistryItem(null);
+    setFontErrors([]);
+    setHasStoredTheme(false);
+    if (persist) {
+      localStorage.removeItem(storageKey);
+    }
+  }, [persist, storageKey, cancelRequest]);
+
   const removeTheme = useCallback(
     (themeId: string) => {
       setThemes((prev) => prev.filter((t) => t.id !== themeId));
       if (currentTheme?.id === themeId) {
+        revertTheme();
         setCurrentTheme(null);
         setCurrentRegistryItem(null);
+        setHasStoredTheme(false);
         if (persist) {
           localStorage.removeItem(storageKey);
         }
@@ -318,9 +728,25 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
     [currentTheme, persist, storageKey],
   );
 
-  const handleSetMode = useCallback((newMode: "light" | "dark") => {
-    setMode(newMode);
-  }, []);
+  const handleSetMode = useCallback(
+    (newMode: ThemeMode) => {
+      if (modeAdapter) {
+        modeAdapter.setMode(newMode);
+        return;
+      }
+      setStoredMode(newMode);
+      setHasModeChoice(true);
+      // The user's choice is stored on its own; "system" is resolved again on every load
+      if (persist && typeof window !== "undefined") {
+        try {
+          localStorage.setItem(modeKey, newMode);
+        } catch (e) {
+          console.error("Failed to save mode:", e);
+        }
+      }
+    },
+    [persist, modeKey, modeAdapter],
+  );
 
   const toggleFavorite = useCallback(
     (themeId: string) => {
@@ -356,11 +782,19 @@ export function useTweakcnSwitcher(config: TweakcnSwitcherConfig = {}): UseTweak
     themes,
     isLoading,
     error,
+    fontErrors,
+    canReset: currentTheme !== null || isLoading || hasStoredTheme,
     applyTheme,
     applyThemeOption,
     addTheme,
+    addCatalog,
+    prefetchTheme,
+    previewTheme,
+    cancelPreview,
     removeTheme,
+    resetTheme,
     mode,
+    resolvedMode,
     setMode: handleSetMode,
     favorites,
     toggleFavorite,
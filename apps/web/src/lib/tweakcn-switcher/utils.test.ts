@@ -0,0 +1,202 @@
+import { describe, expect, test } from "bun:test";
+import { createThemeCache } from "./cache";
+import type { ThemeFetcher } from "./types";
+import { fetchThemeFromUrl } from "./utils";
+
+const BASE_URL = "https://example.com/r/";
+
+type Route = (init: RequestInit) => Response | Promise<Response>;
+
+const json = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+/**
+ * A fetcher serving `routes` by item name, recording every request
+ */
+function createFetcher(routes: Record<string, Route>) {
+  const requests: { url: string; headers: Headers }[] = [];
+  const fetcher: ThemeFetcher = async (url, init) => {
+    requests.push({ url, headers: new Headers(init.headers) });
+    const route = routes[url.slice(BASE_URL.length).replace(/\.json$/, "")];
+    if (!route) {
+      return new Response("Not found", { status: 404, statusText: "Not Found" });
+    }
+    return route(init);
+  };
+  return { fetcher, requests };
+}
+
+const noDelay = { retries: 2, delayMs: 0 };
+
+describe("fetchThemeFromUrl", () => {
+  describe("extends chain", () => {
+    test("merges the base items before the item itself", async () => {
+      const { fetcher, requests } = createFetcher({
+        base: () =>
+          json({ name: "base", cssVars: { light: { primary: "red", radius: "0.5rem" } } }),
+        accent: () => json({ name: "accent", cssVars: { light: { accent: "blue" } } }),
+        brand: () =>
+          json({
+            name: "brand",
+            extends: "base",
+            registryDependencies: ["button", `${BASE_URL}accent.json`],
+            cssVars: { light: { primary: "green" } },
+          }),
+      });
+
+      const item = await fetchThemeFromUrl(`${BASE_URL}brand.json`, { fetcher, cache: false });
+
+      expect(item.name).toBe("brand");
+      expect(item.cssVars.light).toEqual({ primary: "green", radius: "0.5rem", accent: "blue" });
+      expect(requests.map((request) => request.url)).toEqual([
+        `${BASE_URL}brand.json`,
+        `${BASE_URL}base.json`,
+        `${BASE_URL}accent.json`,
+      ]);
+    });
+
+    test("resolves namespaced items through the configured registries", async () => {
+      const { fetcher, requests } = createFetcher({
+        base: () => json({ name: "base", cssVars: { light: { primary: "red" } } }),
+        brand: () => json({ name: "brand", extends: "@acme/base", cssVars: {} }),
+      });
+
+      const item = await fetchThemeFromUrl("@acme/brand", {
+        fetcher,
+        cache: false,
+        registries: { "@acme": `${BASE_URL}{name}.json` },
+      });
+
+      expect(item.cssVars.light).toEqual({ primary: "red" });
+      expect(requests).toHaveLength(2);
+    });
+
+    test("reports circular dependencies", async () => {
+      const { fetcher } = createFetcher({
+        a: () => json({ name: "a", extends: "b", cssVars: {} }),
+        b: () => json({ name: "b", extends: "a", cssVars: {} }),
+      });
+
+      await expect(
+        fetchThemeFromUrl(`${BASE_URL}a.json`, { fetcher, cache: false }),
+      ).rejects.toMatchObject({
+        code: "circular-dependency",
+        message: `Circular theme dependency: ${BASE_URL}a.json -> ${BASE_URL}b.json -> ${BASE_URL}a.json`,
+      });
+    });
+  });
+
+  describe("retries", () => {
+    test("retries server errors until one succeeds", async () => {
+      let attempts = 0;
+      const { fetcher } = createFetcher({
+        theme: () =>
+          ++attempts < 3
+            ? new Response("", { status: 503, statusText: "Service Unavailable" })
+            : json({ name: "theme", cssVars: {} }),
+      });
+
+      const item = await fetchThemeFromUrl(`${BASE_URL}theme.json`, {
+        fetcher,
+        cache: false,
+        retry: noDelay,
+      });
+
+      expect(item.name).toBe("theme");
+      expect(attempts).toBe(3);
+    });
+
+    test("doesn't retry client errors", async () => {
+      const { fetcher, requests } = createFetcher({});
+
+      await expect(
+        fetchThemeFromUrl(`${BASE_URL}missing.json`, { fetcher, cache: false, retry: noDelay }),
+      ).rejects.toMatchObject({ code: "http", status: 404 });
+      expect(requests).toHaveLength(1);
+    });
+
+    test("reports a network error once retries run out", async () => {
+      const { fetcher, requests } = createFetcher({
+        theme: () => Promise.reject(new TypeError("Failed to fetch")),
+      });
+
+      await expect(
+        fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache: false, retry: noDelay }),
+      ).rejects.toMatchObject({ code: "network" });
+      expect(requests).toHaveLength(3);
+    });
+  });
+
+  describe("cache", () => {
+    test("revalidates stale entries with their ETag", async () => {
+      let served = 0;
+      const { fetcher, requests } = createFetcher({
+        theme: (init) => {
+          if (new Headers(init.headers).get("If-None-Match") === '"v1"') {
+            return new Response(null, { status: 304 });
+          }
+          served++;
+          return json({ name: "theme", cssVars: { light: { primary: "red" } } }, { ETag: '"v1"' });
+        },
+      });
+      const cache = createThemeCache({ storage: "memory", ttl: 0 });
+
+      await fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache });
+      const item = await fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache });
+
+      expect(item.cssVars.light).toEqual({ primary: "red" });
+      expect(served).toBe(1);
+      expect(requests[1]?.headers.get("If-None-Match")).toBe('"v1"');
+    });
+
+    test("skips the network for fresh entries", async () => {
+      const { fetcher, requests } = createFetcher({
+        theme: () => json({ name: "theme", cssVars: {} }),
+      });
+      const cache = createThemeCache({ storage: "memory" });
+
+      await fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache });
+      await fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache });
+
+      expect(requests).toHaveLength(1);
+    });
+
+    test("serves cached entries when offline", async () => {
+      let online = true;
+      const { fetcher } = createFetcher({
+        theme: () =>
+          online
+            ? json({ name: "theme", cssVars: { light: { primary: "red" } } })
+            : Promise.reject(new TypeError("Failed to fetch")),
+      });
+      const cache = createThemeCache({ storage: "memory", ttl: 0 });
+
+      await fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache });
+      online = false;
+      const item = await fetchThemeFromUrl(`${BASE_URL}theme.json`, {
+        fetcher,
+        cache,
+        retry: noDelay,
+      });
+
+      expect(item.cssVars.light).toEqual({ primary: "red" });
+    });
+
+    test("never falls back to the cache when aborted", async () => {
+      const { fetcher } = createFetcher({
+        theme: () => json({ name: "theme", cssVars: {} }),
+      });
+      const cache = createThemeCache({ storage: "memory", ttl: 0 });
+      await fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache });
+
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        fetchThemeFromUrl(`${BASE_URL}theme.json`, { fetcher, cache, signal: controller.signal }),
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { TweakcnSwitcher } from "@/components/tweakcn-switcher";
+import { useNextThemesAdapter } from "@/lib/tweakcn-switcher/next-themes";
 import { createFileRoute } from "@tanstack/react-router";
 import { useState, useMemo } from "react";
 import { Copy, Check, ChevronDown, Github } from "lucide-react";
@@ -38,8 +39,12 @@ const defaultThemes = [
 ];
 
 const componentCode = `import { TweakcnSwitcher } from "@/components/tweakcn-switcher";
+import { useNextThemesAdapter } from "@/lib/tweakcn-switcher/next-themes";
 
 function App() {
+  // Optional: share the color mode with next-themes
+  const modeAdapter = useNextThemesAdapter();
+
   // Define your default themes that will appear in the switcher
   const defaultThemes = [
     {
@@ -80,6 +85,12 @@ function App() {
         }
       />
 
+      {/* Sharing the color mode with next-themes */}
+      <TweakcnSwitcher
+        defaultThemes={defaultThemes}
+        modeAdapter={modeAdapter}
+      />
+
       {/* With persistence disabled */}
       <TweakcnSwitcher
         defaultThemes={defaultThemes}
@@ -98,12 +109,13 @@ function CustomSwitcher() {
     currentTheme,      // Currently active theme (or null)
     themes,            // All available themes (defaults + added)
     isLoading,         // Loading state when fetching themes
-    error,             // Error message if something goes wrong
+    error,             // TweakcnError with a machine-readable code, or null
     applyTheme,        // Function to apply theme from URL or CSS string
     applyThemeOption,  // Function to apply theme from ThemeOption object
     addTheme,          // Function to add a new theme dynamically
     removeTheme,       // Function to remove a theme by ID
-    mode,              // Current color mode: "light" | "dark"
+    mode,              // Chosen color mode: "light" | "dark" | "system"
+    resolvedMode,      // Applied color mode: "light" | "dark"
     setMode,           // Function to change color mode
   } = useTweakcnSwitcher({
     defaultThemes: [
@@ -163,7 +175,7 @@ function CustomSwitcher() {
         <p>Current theme: {currentTheme?.name || "None"}</p>
         <p>Mode: {mode}</p>
         {isLoading && <p>Loading theme...</p>}
-        {error && <p className="text-red-500">Error: {error}</p>}
+        {error && <p className="text-red-500">Error: {error.message}</p>}
       </div>
 
       {/* Theme list */}
@@ -208,9 +220,10 @@ function CustomSwitcher() {
 
       {/* Toggle color mode */}
       <div>
-        <button onClick={() => setMode(mode === "light" ? "dark" : "light")}>
-          Toggle to {mode === "light" ? "Dark" : "Light"} Mode
+        <button onClick={() => setMode(resolvedMode === "light" ? "dark" : "light")}>
+          Toggle to {resolvedMode === "light" ? "Dark" : "Light"} Mode
         </button>
+        <button onClick={() => setMode("system")}>Follow System</button>
       </div>
     </div>
   );
@@ -270,6 +283,7 @@ function HomeComponent() {
   const [activeTab, setActiveTab] = useState<"component" | "hook">("component");
   const [packageManager, setPackageManager] = useState<PackageManager>("bun");
   const [copied, setCopied] = useState(false);
+  const modeAdapter = useNextThemesAdapter();
 
   // Get registry URL from current origin
   const componentUrl = "https://tweakcn-switcher.vercel.app/r/tweakcn-switcher.json";
@@ -393,7 +407,7 @@ function HomeComponent() {
           <div className="">
             <h2 className="text-2xl font-semibold mb-4">Try it out</h2>
             <div className="flex items-center justify-center w-full h-96 bg-muted/20 border border-border rounded-lg">
-              <TweakcnSwitcher defaultThemes={defaultThemes} />
+              <TweakcnSwitcher defaultThemes={defaultThemes} modeAdapter={modeAdapter} />
             </div>
           </div>
           {/* Code Examples with Tabs */}
@@ -444,6 +458,24 @@ interface TweakcnSwitcherConfig {
   persist?: boolean;               // Persist to localStorage (default: true)
   storageKey?: string;             // localStorage key (default: "tweakcn-switcher-theme")
   allowDeleteDefaults?: boolean;   // Allow deleting default themes (default: true)
+  engine?: "inline" | "stylesheet"; // Inline properties or one managed <style> (default: "inline")
+  defaultMode?: "light" | "dark" | "system"; // Mode before the user picks one (default: "system")
+  modeAdapter?: ThemeModeAdapter;  // External mode source, e.g. useNextThemesAdapter()
+  fontProvider?: FontProvider;     // "google" | "bunny" | "none" | local fonts | resolver (default: "google")
+  fontLoading?: FontLoadingOptions; // { strategy: "block" | "swap" | "defer", timeoutMs, preload }
+  nonce?: string;                  // CSP nonce for injected <style> and <link> elements
+  styleInjection?: "element" | "adopted"; // <style> tags or adoptedStyleSheets (default: "element")
+  sanitize?: boolean | SanitizeOptions; // Strip unsafe CSS from loaded themes (default: true)
+  cache?: boolean | ThemeCache;    // Cache fetched themes, e.g. createThemeCache({ ttl }) (default: true)
+  fetchTimeoutMs?: number;         // Per-attempt timeout for theme fetches (default: 15000)
+  fetchRetry?: number | RetryOptions; // Retries with backoff, e.g. { retries, delayMs, maxDelayMs } (default: 2)
+  prefetch?: "intent" | "idle" | false; // Prefetch on hover/focus, plus defaults when idle (default: "intent")
+  fetcher?: (url: string, init: RequestInit) => Promise<Response>; // Replaces fetch, e.g. a proxy or test mock
+  requestInit?: RequestInit | ((url: string) => RequestInit | Promise<RequestInit>); // e.g. auth headers
+  sourceResolvers?: ((input: string) => string | null)[]; // Map pasted inputs to theme JSON URLs
+  registries?: Record<string, string>; // e.g. { "@acme": "https://acme.com/r/{name}.json" }
+  catalogUrl?: string;             // registry.json whose registry:theme items are listed as a group
+  onError?: (error: TweakcnError) => void; // Every load error, plus fonts that failed to load
 }`}
               />
             </div>
@@ -455,13 +487,21 @@ interface TweakcnSwitcherConfig {
   currentTheme: ThemeOption | null;                    // Currently active theme
   themes: ThemeOption[];                               // All available themes
   isLoading: boolean;                                  // Loading state
-  error: string | null;                                // Error message
-  applyTheme: (url: string) => Promise<void>;          // Apply theme from URL or CSS
-  applyThemeOption: (theme: ThemeOption) => Promise<void>; // Apply theme from ThemeOption
+  error: TweakcnError | null;                          // Last error; switch on error.code
+  fontErrors: FontLoadFailure[];                       // Fonts that failed to load
+  canReset: boolean;                                   // Something to reset, incl. a restored snapshot
+  applyTheme: (url: string) => Promise<ApplyThemeStatus>; // Apply theme from URL or CSS; latest call wins
+  applyThemeOption: (theme: ThemeOption) => Promise<ApplyThemeStatus>; // "applied" | "superseded" | "failed"
   addTheme: (url: string, name?: string) => Promise<ThemeOption | null>; // Add new theme
+  addCatalog: (url: string, options?: ThemeCatalogOptions) => Promise<ThemeCatalog | null>; // Add a registry.json
+  prefetchTheme: (theme: ThemeOption) => Promise<void>; // Warm the cache before applying
+  previewTheme: (theme: ThemeOption) => Promise<ThemeRegistryItem | null>; // Load without applying
+  cancelPreview: () => void;                           // Abort the preview in flight
   removeTheme: (themeId: string) => void;              // Remove theme by ID
-  mode: "light" | "dark";                              // Current color mode
-  setMode: (mode: "light" | "dark") => void;           // Update color mode
+  resetTheme: () => void;                              // Revert to the app's default theme
+  mode: "light" | "dark" | "system";                   // Color mode chosen by the user
+  resolvedMode: "light" | "dark";                      // Color mode applied to the page
+  setMode: (mode: "light" | "dark" | "system") => void; // Update color mode
 }`}
               />
             </div>
@@ -475,6 +515,7 @@ interface TweakcnSwitcherConfig {
   url?: string;        // URL to fetch theme from
   css?: string;        // CSS variables as string
   preview?: string;    // Optional preview image URL
+  catalog?: string;    // Catalog the theme was listed in, used for grouping
 }`}
               />
             </div>
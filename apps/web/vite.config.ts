@@ -3,9 +3,29 @@ import { tanstackRouter } from "@tanstack/router-plugin/vite";
 import react from "@vitejs/plugin-react";
 import path from "node:path";
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
+import { getThemeScript } from "./src/lib/tweakcn-switcher/theme-script";
+
+/**
+ * Inline the theme restore script into index.html's <head>, so it runs before first paint
+ * instead of after React mounts
+ */
+function themeScript(): Plugin {
+  return {
+    name: "tweakcn-switcher-theme-script",
+    transformIndexHtml: () => [
+      {
+        tag: "script",
+        // next-themes restores the mode itself, so only the theme snapshot is replayed here
+        children: getThemeScript({ applyMode: false }),
+        injectTo: "head-prepend",
+      },
+    ],
+  };
+}
 
 export default defineConfig({
-  plugins: [tailwindcss(), tanstackRouter({}), react()],
+  plugins: [themeScript(), tailwindcss(), tanstackRouter({}), react()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -0,0 +1,180 @@
+/**
+ * Cache for fetched registry items, keyed by normalized URL
+ * An in-memory layer sits in front of a persistent backend so themes used before apply
+ * instantly and keep working offline.
+ */
+
+import type { CachedRegistryItem, ThemeCache, ThemeCacheOptions, ThemeCacheStorage } from "./types";
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DB_NAME = "tweakcn-switcher";
+const DB_STORE = "registry-items";
+const LOCAL_STORAGE_PREFIX = "tweakcn-switcher-cache:";
+
+/**
+ * Backend that only lives as long as the page
+ */
+export function createMemoryStorage(): ThemeCacheStorage {
+  const entries = new Map<string, CachedRegistryItem>();
+  return {
+    get: async (key) => entries.get(key),
+    set: async (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Backend on localStorage, one key per URL
+ */
+export function createLocalStorageStorage(prefix = LOCAL_STORAGE_PREFIX): ThemeCacheStorage {
+  return {
+    get: async (key) => {
+      const raw = localStorage.getItem(`${prefix}${key}`);
+      return raw ? (JSON.parse(raw) as CachedRegistryItem) : undefined;
+    },
+    set: async (key, entry) => {
+      localStorage.setItem(`${prefix}${key}`, JSON.stringify(entry));
+    },
+    delete: async (key) => {
+      localStorage.removeItem(`${prefix}${key}`);
+    },
+    clear: async () => {
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith(prefix))
+        .forEach((key) => localStorage.removeItem(key));
+    },
+  };
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Backend on IndexedDB, which holds far more than localStorage and doesn't block the main thread
+ */
+export function createIndexedDbStorage(dbName = DB_NAME): ThemeCacheStorage {
+  let database: Promise<IDBDatabase> | null = null;
+  const openDatabase = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return promisifyRequest(run(db.transaction(DB_STORE, mode).objectStore(DB_STORE)));
+  };
+
+  return {
+    get: (key) => withStore<CachedRegistryItem | undefined>("readonly", (store) => store.get(key)),
+    set: async (key, entry) => {
+      await withStore("readwrite", (store) => store.put(entry, key));
+    },
+    delete: async (key) => {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+    clear: async () => {
+      await withStore("readwrite", (store) => store.clear());
+    },
+  };
+}
+
+function createStorage(storage: ThemeCacheOptions["storage"]): ThemeCacheStorage | null {
+  if (storage && typeof storage === "object") {
+    return storage;
+  }
+  if (storage === "memory") {
+    return null;
+  }
+  if (storage === "localstorage") {
+    return typeof localStorage !== "undefined" ? createLocalStorageStorage() : null;
+  }
+  if (typeof indexedDB !== "undefined") {
+    return createIndexedDbStorage();
+  }
+  return typeof localStorage !== "undefined" ? createLocalStorageStorage() : null;
+}
+
+/**
+ * Create a cache for fetched registry items
+ * Entries younger than `ttl` are used without a request; older ones are revalidated
+ * with their ETag and still served when the network is unavailable.
+ */
+export function createThemeCache(options: ThemeCacheOptions = {}): ThemeCache {
+  const { ttl = DEFAULT_TTL_MS } = options;
+  const memory = new Map<string, CachedRegistryItem>();
+  const storage = createStorage(options.storage ?? "indexeddb");
+
+  // Storage can fail (private browsing, quota); the cache is best-effort
+  const attempt = async <T>(run: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await run();
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    ttl,
+    get: async (url) => {
+      const cached = memory.get(url);
+      if (cached || !storage) {
+        return cached;
+      }
+      const stored = await attempt(() => storage.get(url));
+      if (stored) {
+        memory.set(url, stored);
+      }
+      return stored;
+    },
+    set: async (url, entry) => {
+      memory.set(url, entry);
+      await attempt(() => storage?.set(url, entry) ?? Promise.resolve());
+    },
+    delete: async (url) => {
+      memory.delete(url);
+      await attempt(() => storage?.delete(url) ?? Promise.resolve());
+    },
+    clear: async () => {
+      memory.clear();
+      await attempt(() => storage?.clear() ?? Promise.resolve());
+    },
+  };
+}
+
+let defaultCache: ThemeCache | null = null;
+
+/**
+ * The cache used when a source doesn't bring its own: IndexedDB, then localStorage
+ */
+export function getDefaultThemeCache(): ThemeCache {
+  defaultCache ??= createThemeCache();
+  return defaultCache;
+}
+
+/**
+ * Turn a source's `cache` option into a cache, or null when caching is off
+ */
+export function resolveThemeCache(cache: boolean | ThemeCache | undefined): ThemeCache | null {
+  if (cache === false) {
+    return null;
+  }
+  return cache === undefined || cache === true ? getDefaultThemeCache() : cache;
+}
@@ -0,0 +1,139 @@
+/**
+ * Typed errors with machine-readable codes
+ * UIs can switch on `code` to localize messages or offer a retry instead of parsing text.
+ */
+
+import type { CssPosition } from "./css-parser";
+import type { FontLoadFailure } from "./types";
+
+export type TweakcnErrorCode =
+  /** The URL is empty, malformed or not http(s) */
+  | "invalid-url"
+  /** `@namespace/name` with a namespace missing from `registries` */
+  | "unknown-namespace"
+  /** The request failed before a response arrived */
+  | "network"
+  | "timeout"
+  /** The server answered with an error status */
+  | "http"
+  /** The URL served an HTML page instead of JSON */
+  | "html-response"
+  | "invalid-json"
+  | "invalid-css"
+  /** The item does not match the registry item schema */
+  | "invalid-theme"
+  /** A component or other non-theme registry item */
+  | "unsupported-type"
+  /** The registry.json index does not match the index schema */
+  | "invalid-catalog"
+  | "circular-dependency"
+  | "dependency-depth"
+  | "font-load"
+  | "unknown";
+
+export interface TweakcnErrorOptions {
+  code: TweakcnErrorCode;
+  /** URL, "CSS input" or font family the error is about */
+  source?: string;
+  cause?: unknown;
+}
+
+export interface ThemeValidationIssue {
+  /** Dot path into the item, e.g. "cssVars.dark.primary"; empty for the item itself */
+  path: string;
+  message: string;
+}
+
+/**
+ * Base class of every error the switcher reports
+ */
+export class TweakcnError extends Error {
+  readonly code: TweakcnErrorCode;
+  readonly source?: string;
+
+  constructor(message: string, options: TweakcnErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = "TweakcnError";
+    this.code = options.code;
+    this.source = options.source;
+  }
+}
+
+/**
+ * A theme or catalog could not be downloaded
+ */
+export class ThemeFetchError extends TweakcnError {
+  /** HTTP status for "http" errors */
+  readonly status?: number;
+
+  constructor(message: string, options: TweakcnErrorOptions & { status?: number }) {
+    super(message, options);
+    this.name = "ThemeFetchError";
+    this.status = options.status;
+  }
+
+  /** Whether trying again later may succeed */
+  get retryable(): boolean {
+    return (
+      this.code === "network" ||
+      this.code === "timeout" ||
+      (this.status !== undefined &&
+        (this.status === 408 || this.status === 429 || this.status >= 500))
+    );
+  }
+}
+
+/**
+ * A response or pasted CSS could not be read
+ */
+export class ThemeParseError extends TweakcnError {
+  /** Where in pasted CSS the problem is */
+  readonly position?: CssPosition;
+
+  constructor(message: string, options: TweakcnErrorOptions & { position?: CssPosition }) {
+    super(message, options);
+    this.name = "ThemeParseError";
+    this.position = options.position;
+  }
+}
+
+/**
+ * Input or a loaded theme is well-formed but not acceptable
+ */
+export class ThemeValidationError extends TweakcnError {
+  readonly issues: ThemeValidationIssue[];
+
+  constructor(message: string, options: TweakcnErrorOptions & { issues?: ThemeValidationIssue[] }) {
+    super(message, options);
+    this.name = "ThemeValidationError";
+    this.issues = options.issues ?? [];
+  }
+}
+
+/**
+ * Theme fonts that failed to load; the theme itself was applied
+ */
+export class FontLoadError extends TweakcnError {
+  readonly failures: FontLoadFailure[];
+
+  constructor(failures: FontLoadFailure[]) {
+    const families = failures.map((failure) => failure.family).join(", ");
+    super(`Failed to load theme fonts: ${families}`, { code: "font-load", source: families });
+    this.name = "FontLoadError";
+    this.failures = failures;
+  }
+}
+
+/**
+ * Wrap anything thrown into a TweakcnError, keeping the original as `cause`
+ */
+export function toTweakcnError(
+  error: unknown,
+  fallbackMessage = "Something went wrong",
+): TweakcnError {
+  if (error instanceof TweakcnError) {
+    return error;
+  }
+  const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+  return new TweakcnError(message, { code: "unknown", cause: error });
+}
@@ -0,0 +1,471 @@
+/**
+ * Font loading for theme font-* tokens (font-sans, font-serif, font-mono, ...)
+ */
+
+import type {
+  FontLoadFailure,
+  FontProvider,
+  FontResolver,
+  FontSource,
+  LocalFontFace,
+  StyleInjectionOptions,
+  ThemeFont,
+} from "./types";
+import { getStyleOwners, removeStyleElements, setNonce, upsertStyleElement } from "./stylesheets";
+
+/**
+ * Weights requested per token. Body text needs the full range, code and serif
+ * headings only the common ones.
+ */
+const FONT_WEIGHTS: Record<string, number[]> = {
+  "font-sans": [400, 500, 600, 700],
+  "font-serif": [400, 600, 700],
+  "font-mono": [400, 500, 700],
+};
+
+const DEFAULT_FONT_WEIGHTS = [400, 700];
+
+/**
+ * Generic families and fonts that ship with operating systems; these are never fetched
+ */
+const SYSTEM_FONTS = new Set([
+  "sans-serif",
+  "serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "ui-sans-serif",
+  "ui-serif",
+  "ui-monospace",
+  "ui-rounded",
+  "math",
+  "emoji",
+  "fangsong",
+  "-apple-system",
+  "blinkmacsystemfont",
+  "segoe ui",
+  "helvetica neue",
+  "helvetica",
+  "arial",
+  "times new roman",
+  "times",
+  "georgia",
+  "courier new",
+  "courier",
+  "menlo",
+  "monaco",
+  "consolas",
+  "sf mono",
+  "sfmono-regular",
+  "liberation mono",
+  "apple color emoji",
+  "segoe ui emoji",
+  "segoe ui symbol",
+]);
+
+/**
+ * Pick the font-* tokens out of a set of theme variables
+ */
+export function getFontVars(vars: Record<string, string> = {}): Record<string, string> {
+  const fontVars: Record<string, string> = {};
+  Object.entries(vars).forEach(([key, value]) => {
+    if (key.startsWith("font-") && value) {
+      fontVars[key] = value;
+    }
+  });
+  return fontVars;
+}
+
+/**
+ * Extract font family names from a font-family CSS value
+ * Handles values like "Roboto, sans-serif" or '"Inter Variable", sans-serif'
+ */
+export function extractFontNames(fontFamily: string): string[] {
+  // Remove quotes and split by comma
+  return fontFamily
+    .split(",")
+    .map((f) => f.trim().replace(/^["']|["']$/g, ""))
+    .filter((f) => f && !SYSTEM_FONTS.has(f.toLowerCase()));
+}
+
+/**
+ * Quote a family name as a CSS string, dropping any quotes around it
+ * Characters that can't appear in a string literally are written as CSS escapes (`\22 `).
+ */
+export function quoteFontFamily(family: string): string {
+  const name = family.trim().replace(/^(["'])(.*)\1$/s, "$2");
+  const escaped = name.replace(/["\\\n\r\f]/g, (char) => `\\${char.charCodeAt(0).toString(16)} `);
+  return `"${escaped}"`;
+}
+
+/**
+ * Normalize a font-family list for generated CSS
+ * Quoted names, unquoted identifiers such as `sans-serif` and functions such as `var()`
+ * are kept as they are; anything else is quoted.
+ */
+export function formatFontFamilyList(value: string): string {
+  const entries: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+    if (char === "\\") {
+      current += value.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      entries.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  entries.push(current.trim());
+
+  return entries
+    .filter(Boolean)
+    .map((entry) =>
+      /^(["'])(?:\\.|(?!\1)[^\\\n])*\1$/.test(entry) ||
+      /^-?[a-z_][\w-]*(\s+-?[a-z_][\w-]*)*$/i.test(entry) ||
+      /^[\w-]+\(.*\)$/.test(entry)
+        ? entry
+        : quoteFontFamily(entry),
+    )
+    .join(", ");
+}
+
+/**
+ * Resolve every family used by the font tokens, merging weights when several
+ * tokens share a family so each family is requested once
+ */
+export function collectThemeFonts(fontVars: Record<string, string>): ThemeFont[] {
+  const fonts = new Map<string, ThemeFont>();
+
+  Object.entries(fontVars).forEach(([token, value]) => {
+    const weights = FONT_WEIGHTS[token] ?? DEFAULT_FONT_WEIGHTS;
+    extractFontNames(value).forEach((family) => {
+      const existing = fonts.get(family);
+      if (existing) {
+        existing.weights = [...new Set([...existing.weights, ...weights])].sort((a, b) => a - b);
+        existing.tokens.push(token);
+      } else {
+        fonts.set(family, { family, weights: [...weights], tokens: [token] });
+      }
+    });
+  });
+
+  return [...fonts.values()];
+}
+
+/**
+ * Build the Google Fonts stylesheet URL for a family
+ */
+export function getGoogleFontsUrl(font: ThemeFont): string | null {
+  // Remove spaces and special characters for Google Fonts API
+  const normalizedName = font.family.replace(/\s+/g, "+").replace(/['"]/g, "").trim();
+
+  if (!normalizedName) {
+    return null;
+  }
+
+  return `https://fonts.googleapis.com/css2?family=${normalizedName}:wght@${font.weights.join(";")}&display=swap`;
+}
+
+/**
+ * Build the Bunny Fonts stylesheet URL for a family
+ * Bunny mirrors the Google catalog without tracking, using lowercase hyphenated names
+ */
+export function getBunnyFontsUrl(font: ThemeFont): string | null {
+  const normalizedName = font.family.replace(/['"]/g, "").trim().toLowerCase().replace(/\s+/g, "-");
+
+  if (!normalizedName) {
+    return null;
+  }
+
+  return `https://fonts.bunny.net/css?family=${normalizedName}:${font.weights.join(",")}&display=swap`;
+}
+
+const FONT_FORMATS: Record<string, string> = {
+  woff2: "woff2",
+  woff: "woff",
+  ttf: "truetype",
+  otf: "opentype",
+};
+
+/**
+ * Build @font-face rules for self-hosted files
+ * A plain URL is treated as a variable font covering every weight
+ */
+function buildLocalFontFaceCss(family: string, faces: string | LocalFontFace[]): string {
+  const faceList: LocalFontFace[] =
+    typeof faces === "string" ? [{ src: faces, weight: "100 900" }] : faces;
+
+  return faceList
+    .map((face) => {
+      const extension = face.src.split("?")[0]?.split(".").pop()?.toLowerCase() ?? "";
+      const format = face.format ?? FONT_FORMATS[extension];
+      return [
+        "@font-face {",
+        `  font-family: ${quoteFontFamily(family)};`,
+        `  src: url("${face.src}")${format ? ` format("${format}")` : ""};`,
+        `  font-weight: ${face.weight ?? 400};`,
+        `  font-style: ${face.style ?? "normal"};`,
+        "  font-display: swap;",
+        "}",
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Turn a font provider option into a resolver
+ * Returns null for "none", which disables font loading entirely
+ */
+export function getFontResolver(provider: FontProvider = "google"): FontResolver | null {
+  if (typeof provider === "function") {
+    return provider;
+  }
+  if (provider === "none") {
+    return null;
+  }
+  if (provider === "google" || provider === "bunny") {
+    const getUrl = provider === "google" ? getGoogleFontsUrl : getBunnyFontsUrl;
+    return (font) => {
+      const url = getUrl(font);
+      return url ? { type: "stylesheet", url } : null;
+    };
+  }
+  return (font) => {
+    const faces = provider.fonts[font.family];
+    return faces ? { type: "font-face", css: buildLocalFontFaceCss(font.family, faces) } : null;
+  };
+}
+
+const FONT_FACE_ATTRIBUTE = "data-tweakcn-switcher-font-face";
+
+/**
+ * Resolve with a fallback value if the promise takes longer than timeoutMs
+ * The original work keeps running; only the wait is cut short.
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, fallback: T): Promise<T> {
+  return new Promise<T>((resolve) => {
+    const timer = setTimeout(() => resolve(fallback), timeoutMs);
+    promise.then((value) => {
+      clearTimeout(timer);
+      resolve(value);
+    });
+  });
+}
+
+/**
+ * Ask the browser to load every weight of a family
+ * Returns false when no @font-face rule matches the family
+ */
+async function waitForFontFaces(font: ThemeFont): Promise<boolean> {
+  if (typeof document.fonts?.load !== "function") {
+    return true;
+  }
+  const family = quoteFontFamily(font.family);
+  const results = await Promise.all(
+    font.weights.map((weight) => document.fonts.load(`${weight} 1em ${family}`)),
+  );
+  return results.some((faces) => faces.length > 0);
+}
+
+async function loadFontSource(
+  font: ThemeFont,
+  source: FontSource,
+  injection: StyleInjectionOptions,
+): Promise<FontLoadFailure | null> {
+  const url = source.type === "stylesheet" ? source.url : undefined;
+
+  if (source.type === "font-face") {
+    // One style per family, replacing any earlier rules for it
+    upsertStyleElement(FONT_FACE_ATTRIBUTE, font.family, source.css, injection);
+  } else if (!(await loadFontStylesheet(font.family, source.url, injection.nonce))) {
+    return { family: font.family, url, reason: "error" };
+  }
+
+  try {
+    if (!(await waitForFontFaces(font))) {
+      return { family: font.family, url, reason: "not-found" };
+    }
+  } catch {
+    return { family: font.family, url, reason: "error" };
+  }
+  return null;
+}
+
+/**
+ * Load a font stylesheet, reusing the link already injected for the same family
+ * Resolves to false if the stylesheet failed to load
+ */
+function loadFontStylesheet(
+  family: string,
+  url: string,
+  nonce: string | undefined,
+): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const existing = [
+      ...document.querySelectorAll<HTMLLinkElement>('link[data-tweakcn-switcher-font="true"]'),
+    ].find((link) => link.dataset.fontFamily === family);
+    if (existing?.getAttribute("href") === url) {
+      resolve(true);
+      return;
+    }
+
+    const link = document.createElement("link");
+    link.rel = "stylesheet";
+    link.href = url;
+    link.setAttribute("data-tweakcn-switcher-font", "true");
+    link.dataset.fontFamily = family;
+    setNonce(link, nonce);
+
+    link.onload = () => {
+      // The new link may request more weights; drop the one it replaces
+      existing?.remove();
+      resolve(true);
+    };
+    link.onerror = () => resolve(false);
+
+    document.head.appendChild(link);
+  });
+}
+
+/**
+ * Add `<link rel="preload">` hints for font stylesheets so the browser starts
+ * fetching them before the theme asks for them
+ */
+export function preloadThemeFonts(
+  fonts: ThemeFont[],
+  provider: FontProvider = "google",
+  options: StyleInjectionOptions = {},
+) {
+  const resolve = getFontResolver(provider);
+  if (!resolve) {
+    return;
+  }
+
+  fonts.forEach((font) => {
+    const source = resolve(font);
+    if (source?.type !== "stylesheet") {
+      return;
+    }
+    const hasHint = [
+      ...document.querySelectorAll<HTMLLinkElement>("link[data-tweakcn-switcher-font-preload]"),
+    ].some((link) => link.getAttribute("href") === source.url);
+    if (hasHint) {
+      return;
+    }
+
+    const link = document.createElement("link");
+    link.rel = "preload";
+    link.as = "style";
+    link.href = source.url;
+    link.setAttribute("data-tweakcn-switcher-font-preload", "true");
+    link.dataset.fontFamily = font.family;
+    setNonce(link, options.nonce);
+    document.head.appendChild(link);
+  });
+}
+
+export interface LoadThemeFontsOptions extends StyleInjectionOptions {
+  /** Stop waiting for a family after this many milliseconds and report it as timed out */
+  timeoutMs?: number;
+}
+
+/**
+ * Load fonts through the configured provider (Google Fonts by default)
+ * Never rejects; families that could not be loaded are returned as failures
+ */
+export async function loadThemeFonts(
+  fonts: ThemeFont[],
+  provider: FontProvider = "google",
+  options: LoadThemeFontsOptions = {},
+): Promise<FontLoadFailure[]> {
+  const resolve = getFontResolver(provider);
+  if (!resolve) {
+    return [];
+  }
+
+  const results = await Promise.all(
+    fonts.map((font) => {
+      const source = resolve(font);
+      if (!source) {
+        return null;
+      }
+      const load = loadFontSource(font, source, options);
+      if (!options.timeoutMs) {
+        return load;
+      }
+      return withTimeout<FontLoadFailure | null>(load, options.timeoutMs, {
+        family: font.family,
+        url: source.type === "stylesheet" ? source.url : undefined,
+        reason: "timeout",
+      });
+    }),
+  );
+
+  return results.filter((result): result is FontLoadFailure => result !== null);
+}
+
+/**
+ * Remove font links and @font-face styles added by tweakcn-switcher,
+ * except those for families still in use
+ */
+export function removeFontLinks(keepFamilies: Set<string> = new Set()) {
+  document
+    .querySelectorAll<HTMLElement>(
+      'link[data-tweakcn-switcher-font="true"], link[data-tweakcn-switcher-font-preload="true"]',
+    )
+    .forEach((element) => {
+      if (!element.dataset.fontFamily || !keepFamilies.has(element.dataset.fontFamily)) {
+        element.remove();
+      }
+    });
+
+  getStyleOwners(FONT_FACE_ATTRIBUTE).forEach((family) => {
+    if (!keepFamilies.has(family)) {
+      removeStyleElements(FONT_FACE_ATTRIBUTE, family);
+    }
+  });
+}
+
+/**
+ * Build the rules that force the theme's fonts over Tailwind's @theme values
+ * Every font-* token is overridden; font-sans also becomes the document font.
+ */
+export function buildFontOverrideCss(
+  fontVars: Record<string, string>,
+  scope: string | null,
+): string {
+  const formatted = Object.entries(fontVars).map(
+    ([token, value]) => [token, formatFontFamilyList(value)] as const,
+  );
+  const declarations = formatted.map(([token, value]) => `  --${token}: ${value} !important;`);
+  const fontSans = formatted.find(([token]) => token === "font-sans")?.[1];
+
+  if (scope) {
+    if (fontSans) {
+      declarations.push(`  font-family: ${fontSans} !important;`);
+    }
+    return `${scope} {\n${declarations.join("\n")}\n}`;
+  }
+
+  const rules = [`:root {\n${declarations.join("\n")}\n}`];
+  if (fontSans) {
+    rules.push(`html, body {\n  font-family: ${fontSans} !important;\n}`);
+  }
+  return rules.join("\n");
+}
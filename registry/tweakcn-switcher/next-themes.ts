@@ -0,0 +1,22 @@
+/**
+ * next-themes integration for useTweakcnSwitcher
+ */
+
+import { useMemo } from "react";
+import { useTheme } from "next-themes";
+import type { ThemeMode, ThemeModeAdapter } from "./types";
+
+/**
+ * Share the color mode with next-themes' ThemeProvider
+ * Pass the result as `modeAdapter` so the switcher, next-themes and anything reading
+ * `useTheme` always agree on the mode.
+ */
+export function useNextThemesAdapter(): ThemeModeAdapter {
+  const { theme, resolvedTheme, setTheme } = useTheme();
+
+  // next-themes leaves theme undefined until it has mounted
+  const mode: ThemeMode = theme === "light" || theme === "dark" ? theme : "system";
+  const resolvedMode = resolvedTheme === "dark" ? "dark" : "light";
+
+  return useMemo(() => ({ mode, resolvedMode, setMode: setTheme }), [mode, resolvedMode, setTheme]);
+}
@@ -0,0 +1,170 @@
+/**
+ * Serialization of the registry item `css` object (shadcn registry schema)
+ */
+
+import type { ThemeRegistryCss } from "./types";
+
+/**
+ * - "browser": CSS a browser can use as-is. `@utility` becomes a class rule and
+ *   Tailwind-only statements such as `@plugin` or `@apply` are dropped.
+ * - "tailwind": everything is kept verbatim, for files processed by Tailwind.
+ */
+export type RegistryCssOutput = "browser" | "tailwind";
+
+export interface SerializeRegistryCssOptions {
+  /** Selector that top-level rules are scoped to */
+  scope?: string | null;
+  output?: RegistryCssOutput;
+}
+
+export interface SerializedRegistryCss {
+  /** `@import` statements, which must come before any other rule in a stylesheet */
+  imports: string;
+  rules: string;
+}
+
+/**
+ * At-rules whose children are rules of the same kind as the at-rule's parent
+ */
+const GROUPING_AT_RULES = /^@(layer|media|supports|container|scope|starting-style)\b/;
+
+/**
+ * Split a selector list on commas outside parentheses, brackets and strings,
+ * e.g. not in `:is(a, b)` or `[title="a, b"]`
+ */
+export function splitSelectorList(selector: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i]!;
+    if (char === "\\") {
+      current += selector.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+/**
+ * Rewrite a selector list so it only matches inside a scoped element
+ * `:root`, `html` and `body` map to the scope element itself, `.dark` to the scope in dark mode
+ */
+export function scopeSelector(selector: string, scope: string): string {
+  return splitSelectorList(selector)
+    .map((part) => {
+      const match = part.match(/^(:root|html|body)(?=$|[\s.:[>+~])(.*)$/);
+      if (match) {
+        return `${scope}${match[2]}`;
+      }
+      if (part.startsWith(".dark")) {
+        return `${scope}${part}`;
+      }
+      return `${scope} ${part}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Only imports the browser can fetch on its own survive browser output
+ */
+function isUrlImport(statement: string): boolean {
+  return /^@import\s+(url\(|["'](https?:)?\/\/)/.test(statement);
+}
+
+interface SerializeContext {
+  scope: string | null;
+  output: RegistryCssOutput;
+  imports: string[];
+}
+
+/**
+ * @param nested - Inside a style rule or a rule-less at-rule (`@keyframes`, `@font-face`),
+ * where keys are not selectors to scope
+ */
+function serializeRules(
+  rules: ThemeRegistryCss,
+  context: SerializeContext,
+  depth: number,
+  nested: boolean,
+): string[] {
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+
+  Object.entries(rules).forEach(([key, value]) => {
+    if (typeof value === "string") {
+      lines.push(`${indent}${key}: ${value};`);
+      return;
+    }
+
+    const isStatement = key.startsWith("@") && Object.keys(value).length === 0;
+    if (isStatement) {
+      if (key.startsWith("@import")) {
+        if (context.output === "tailwind" || isUrlImport(key)) {
+          context.imports.push(`${key};`);
+        }
+      } else if (context.output === "tailwind") {
+        lines.push(`${indent}${key};`);
+      }
+      return;
+    }
+
+    let prelude = key;
+    let childrenNested = true;
+
+    if (key.startsWith("@utility") && context.output === "browser") {
+      const name = key.slice("@utility".length).trim();
+      // Functional utilities (`tab-*`) only exist once Tailwind expands them
+      if (!name || name.includes("*")) {
+        return;
+      }
+      prelude = nested || !context.scope ? `.${name}` : `${context.scope} .${name}`;
+    } else if (GROUPING_AT_RULES.test(key)) {
+      childrenNested = nested;
+    } else if (!key.startsWith("@") && !nested && context.scope) {
+      prelude = scopeSelector(key, context.scope);
+    }
+
+    lines.push(
+      `${indent}${prelude} {`,
+      ...serializeRules(value, context, depth + 1, childrenNested),
+      `${indent}}`,
+    );
+  });
+
+  return lines;
+}
+
+/**
+ * Serialize a registry `css` object, nesting at-rules and scoping selectors when needed
+ * Imports are returned separately so callers can hoist them to the top of the stylesheet.
+ */
+export function serializeRegistryCss(
+  css: ThemeRegistryCss,
+  options: SerializeRegistryCssOptions = {},
+): SerializedRegistryCss {
+  const context: SerializeContext = {
+    scope: options.scope ?? null,
+    output: options.output ?? "browser",
+    imports: [],
+  };
+  const rules = serializeRules(css, context, 0, false).join("\n");
+  return { imports: context.imports.join("\n"), rules };
+}
@@ -0,0 +1,170 @@
+/**
+ * Registry item types, references and merging for `extends` / `registryDependencies` chains
+ */
+
+import { ThemeValidationError } from "./errors";
+import { parseWithSchema, registryIndexSchema, validateRegistryItem } from "./schema";
+import { isNamespacedName, resolveThemeUrl } from "./sources";
+import type {
+  ThemeRegistryCss,
+  ThemeRegistryCssVars,
+  ThemeRegistryItem,
+  ThemeSourceOptions,
+} from "./types";
+
+/**
+ * Item types that can carry a theme. "theme" is what parsed CSS produces
+ */
+const THEME_ITEM_TYPES = new Set(["registry:theme", "registry:style", "registry:item", "theme"]);
+
+/**
+ * Longest `extends` / `registryDependencies` chain followed before giving up
+ */
+export const MAX_REGISTRY_DEPTH = 10;
+
+export function isThemeItemType(type: string | undefined): boolean {
+  return !type || THEME_ITEM_TYPES.has(type);
+}
+
+/**
+ * Validate a fetched item and throw if it is not something that can be applied as a theme
+ */
+export function parseThemeItem(item: unknown, url: string): ThemeRegistryItem {
+  if (!item || typeof item !== "object" || Array.isArray(item)) {
+    throw new ThemeValidationError(`Invalid theme at ${url}: expected a registry item object`, {
+      code: "invalid-theme",
+      source: url,
+    });
+  }
+  const { type } = item as { type?: unknown };
+  if (typeof type === "string" && !isThemeItemType(type)) {
+    throw new ThemeValidationError(`Invalid theme at ${url}: ${type} items are not themes`, {
+      code: "unsupported-type",
+      source: url,
+    });
+  }
+  return validateRegistryItem(item, url);
+}
+
+export interface RegistryIndexItem {
+  name: string;
+  type?: string;
+  title?: string;
+  description?: string;
+}
+
+export interface RegistryIndex {
+  name?: string;
+  homepage?: string;
+  items: RegistryIndexItem[];
+}
+
+/**
+ * Throw if a fetched document is not a shadcn `registry.json` index
+ * Entries that are not objects with a string `name` are dropped rather than rejected.
+ */
+export function parseRegistryIndex(index: unknown, url: string): RegistryIndex {
+  if (!index || typeof index !== "object" || Array.isArray(index)) {
+    throw new ThemeValidationError(
+      `Invalid registry index at ${url}: expected a registry.json object`,
+      { code: "invalid-catalog", source: url },
+    );
+  }
+  const { name, homepage, items } = parseWithSchema(
+    registryIndexSchema,
+    index,
+    url,
+    "invalid-catalog",
+  );
+  return {
+    name,
+    homepage,
+    items: items.filter(
+      (item): item is RegistryIndexItem =>
+        !!item && typeof item === "object" && typeof (item as { name?: unknown }).name === "string",
+    ),
+  };
+}
+
+/**
+ * URLs of the items a registry item builds on, base first
+ * `extends` may be a URL, an `@namespace/name` item or an item name next to the current one;
+ * "none" opts out. URL and `@namespace/name` entries go through the configured resolvers.
+ * `registryDependencies` are followed for URLs and known namespaces only, since bare names
+ * and other registries usually point at components.
+ */
+export function getRegistryReferences(
+  item: ThemeRegistryItem,
+  url: string,
+  options: Pick<ThemeSourceOptions, "sourceResolvers" | "registries"> = {},
+): string[] {
+  const references: string[] = [];
+
+  if (item.extends && item.extends !== "none") {
+    const resolved = resolveThemeUrl(item.extends, options);
+    // Bare names no resolver recognizes are siblings of the current item
+    references.push(
+      resolved !== item.extends.trim() || /^https?:\/\//.test(resolved)
+        ? resolved
+        : resolveItemUrl(resolved, url),
+    );
+  }
+  item.registryDependencies?.forEach((dependency) => {
+    if (/^https?:\/\//.test(dependency)) {
+      references.push(resolveThemeUrl(dependency, options));
+    } else if (isNamespacedName(dependency)) {
+      try {
+        references.push(resolveThemeUrl(dependency, options));
+      } catch (e) {
+        if (!(e instanceof ThemeValidationError && e.code === "unknown-namespace")) {
+          throw e;
+        }
+      }
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Resolve an item name against the URL of the item referencing it
+ * e.g. "base" from https://example.com/r/themes/brand.json -> https://example.com/r/themes/base.json
+ */
+function resolveItemUrl(name: string, url: string): string {
+  return new URL(name.endsWith(".json") ? name : `${name}.json`, url).toString();
+}
+
+function mergeCss(base: ThemeRegistryCss, override: ThemeRegistryCss): ThemeRegistryCss {
+  const merged: ThemeRegistryCss = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    const existing = merged[key];
+    merged[key] =
+      typeof value === "object" && typeof existing === "object" ? mergeCss(existing, value) : value;
+  });
+  return merged;
+}
+
+/**
+ * Merge a chain of registry items in order; later items win
+ * cssVars are merged per group (theme, light, dark) and css rules are merged deeply.
+ * Name, type and the rest of the metadata come from the last item.
+ */
+export function mergeRegistryItems(items: ThemeRegistryItem[]): ThemeRegistryItem {
+  const cssVars: ThemeRegistryCssVars = {};
+  let css: ThemeRegistryCss | undefined;
+
+  items.forEach((item) => {
+    (["theme", "light", "dark"] as const).forEach((group) => {
+      const vars = item.cssVars?.[group];
+      if (vars) {
+        cssVars[group] = { ...cssVars[group], ...vars };
+      }
+    });
+    if (item.css) {
+      css = mergeCss(css ?? {}, item.css);
+    }
+  });
+
+  const last = items[items.length - 1]!;
+  return { ...last, cssVars, ...(css && { css }) };
+}
@@ -0,0 +1,317 @@
+/**
+ * Sanitizer for untrusted theme values
+ * Remote themes end up in `<style>` text, so anything that could close a rule, smuggle in
+ * markup or load an external resource is removed before it reaches the DOM.
+ */
+
+import type {
+  SanitizeIssue,
+  SanitizeOptions,
+  ThemeRegistryCss,
+  ThemeRegistryCssVars,
+  ThemeRegistryItem,
+} from "./types";
+
+export interface SanitizeResult {
+  item: ThemeRegistryItem;
+  issues: SanitizeIssue[];
+}
+
+/**
+ * At-rules a theme may use
+ */
+const ALLOWED_AT_RULES = new Set([
+  "layer",
+  "media",
+  "supports",
+  "container",
+  "scope",
+  "starting-style",
+  "keyframes",
+  "-webkit-keyframes",
+  "font-face",
+  "property",
+  "utility",
+  "apply",
+  "custom-variant",
+  "variant",
+  "theme",
+  "import",
+  "plugin",
+  "source",
+  "reference",
+]);
+
+/**
+ * At-rules that pull in stylesheets, plugins or files from elsewhere
+ */
+const EXTERNAL_AT_RULES = new Set(["import", "plugin", "source", "reference"]);
+
+const VARIABLE_NAME = /^[\w-]+$/;
+const PROPERTY_NAME = /^(--[\w-]+|-?[a-z][a-z0-9-]*)$/i;
+
+/**
+ * Characters that could end a declaration or rule or start a comment; checked after escapes
+ * are decoded, outside quoted strings
+ */
+const STRUCTURAL_CHARACTERS = /[{};]|\/\*|\*\//;
+/** Markup such as `</style>` in server-rendered output closes the element even inside a string */
+const MARKUP_CHARACTER = /</;
+const CSS_ESCAPE = /\\(?:([0-9a-f]{1,6})\s?|([\s\S]))/gi;
+/** An odd number of trailing backslashes escapes whatever is written after the text */
+const TRAILING_ESCAPE = /(^|[^\\])(\\\\)*\\$/;
+const MAX_CODE_POINT = 0x10ffff;
+const SCRIPTING = /expression\s*\(|javascript:|vbscript:|-moz-binding/i;
+/** IE's `behavior` property loads script; only the property name is checked */
+const SCRIPTING_PROPERTY = /^behavior$/i;
+const RESOURCE_FUNCTION =
+  /(^|[^\w-])(url|src|image|image-set|-webkit-image-set|cross-fade|element)\s*\(/i;
+
+/**
+ * Decode CSS escapes such as `\201C` or `\:`, so escaped structural characters are caught
+ * while legitimate escapes are kept
+ */
+function decodeEscapes(text: string): string {
+  return text.replace(CSS_ESCAPE, (_, hex: string | undefined, char: string | undefined) => {
+    if (hex === undefined) {
+      return char ?? "";
+    }
+    const codePoint = Number.parseInt(hex, 16);
+    return codePoint === 0 || codePoint > MAX_CODE_POINT
+      ? "\uFFFD"
+      : String.fromCodePoint(codePoint);
+  });
+}
+
+/**
+ * Replace the contents of quoted strings, so `;` in `content: "a;b"` isn't taken for the end
+ * of the declaration; escaped quotes outside strings don't open one
+ */
+function stripStrings(text: string): string {
+  let result = "";
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (const char of text) {
+    if (escaped) {
+      escaped = false;
+      if (quote) {
+        continue;
+      }
+    } else if (char === "\\") {
+      escaped = true;
+      if (quote) {
+        continue;
+      }
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+        result += char;
+      }
+      continue;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Quotes must be closed and brackets balanced, so a value can't leak into the next one
+ */
+function isBalanced(text: string): boolean {
+  const closing: Record<string, string> = { "(": ")", "[": "]" };
+  const stack: string[] = [];
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (const char of text) {
+    if (escaped) {
+      escaped = false;
+    } else if (char === "\\") {
+      escaped = true;
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\n") {
+        return false;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (closing[char]) {
+      stack.push(closing[char]);
+    } else if (char === ")" || char === "]") {
+      if (stack.pop() !== char) {
+        return false;
+      }
+    }
+  }
+
+  return quote === null && stack.length === 0;
+}
+
+function getTextIssue(text: string): string | null {
+  const decoded = decodeEscapes(text);
+  if (
+    STRUCTURAL_CHARACTERS.test(decodeEscapes(stripStrings(text))) ||
+    MARKUP_CHARACTER.test(decoded) ||
+    TRAILING_ESCAPE.test(text)
+  ) {
+    return "contains characters that could break out of the rule";
+  }
+  if (!isBalanced(text)) {
+    return "has unbalanced quotes or brackets";
+  }
+  if (SCRIPTING.test(decoded)) {
+    return "contains a scripting construct";
+  }
+  return null;
+}
+
+function getValueIssue(value: string, options: SanitizeOptions): string | null {
+  const issue = getTextIssue(value);
+  if (issue) {
+    return issue;
+  }
+  if (!options.allowUrls && RESOURCE_FUNCTION.test(decodeEscapes(value))) {
+    return "loads an external resource";
+  }
+  return null;
+}
+
+function getAtRuleIssue(key: string, options: SanitizeOptions): string | null {
+  const name = key.slice(1).split(/[\s(]/)[0]!.toLowerCase();
+  if (!ALLOWED_AT_RULES.has(name)) {
+    return `@${name} is not allowed`;
+  }
+  if (EXTERNAL_AT_RULES.has(name) && !options.allowImports) {
+    return "loads an external resource";
+  }
+  // Import preludes are URLs by nature; everything else is checked like a value
+  return name === "import" ? getTextIssue(key) : getValueIssue(key, options);
+}
+
+function sanitizeVars(
+  vars: Record<string, string> | undefined,
+  path: string,
+  options: SanitizeOptions,
+  issues: SanitizeIssue[],
+): Record<string, string> | undefined {
+  if (!vars) {
+    return vars;
+  }
+
+  const clean: Record<string, string> = {};
+  Object.entries(vars).forEach(([key, value]) => {
+    const reason =
+      typeof value !== "string"
+        ? "is not a string"
+        : !VARIABLE_NAME.test(key)
+          ? "is not a valid variable name"
+          : getValueIssue(value, options);
+    if (reason) {
+      issues.push({ path: `${path}.${key}`, value: String(value), reason });
+    } else {
+      clean[key] = value;
+    }
+  });
+  return clean;
+}
+
+function sanitizeCss(
+  css: ThemeRegistryCss,
+  path: string,
+  options: SanitizeOptions,
+  issues: SanitizeIssue[],
+): ThemeRegistryCss {
+  const clean: ThemeRegistryCss = {};
+
+  Object.entries(css).forEach(([key, value]) => {
+    const keyPath = `${path} > ${key}`;
+    let reason: string | null;
+
+    if (typeof value === "string") {
+      reason = !PROPERTY_NAME.test(key)
+        ? "is not a valid property name"
+        : SCRIPTING_PROPERTY.test(key)
+          ? "contains a scripting construct"
+          : getValueIssue(value, options);
+    } else if (!value || typeof value !== "object" || Array.isArray(value)) {
+      reason = "is not a rule or a value";
+    } else if (key.startsWith("@")) {
+      reason = getAtRuleIssue(key, options);
+    } else {
+      // Selectors only have to stay inside their own rule
+      reason = getTextIssue(key);
+    }
+
+    if (reason) {
+      issues.push({
+        path: keyPath,
+        value: typeof value === "string" ? value : key,
+        reason,
+      });
+      return;
+    }
+
+    clean[key] = typeof value === "string" ? value : sanitizeCss(value, keyPath, options, issues);
+  });
+
+  return clean;
+}
+
+/**
+ * Strip unsafe variables, selectors, at-rules and values from a registry item
+ * Returns the cleaned item and one issue per removed entry.
+ */
+export function sanitizeRegistryItem(
+  registryItem: ThemeRegistryItem,
+  options: SanitizeOptions = {},
+): SanitizeResult {
+  const issues: SanitizeIssue[] = [];
+  const { cssVars = {}, css } = registryItem;
+
+  const cleanVars: ThemeRegistryCssVars = {};
+  (["theme", "light", "dark"] as const).forEach((group) => {
+    const vars = sanitizeVars(cssVars[group], `cssVars.${group}`, options, issues);
+    if (vars) {
+      cleanVars[group] = vars;
+    }
+  });
+
+  const item: ThemeRegistryItem = { ...registryItem, cssVars: cleanVars };
+  if (css) {
+    item.css = sanitizeCss(css, "css", options, issues);
+  }
+
+  return { item, issues };
+}
+
+/**
+ * Run the sanitizer as configured by a theme source's `sanitize` option
+ * Issues go to `onIssues`, or are logged as a warning.
+ */
+export function sanitizeThemeSource(
+  registryItem: ThemeRegistryItem,
+  sanitize: boolean | SanitizeOptions = true,
+): ThemeRegistryItem {
+  if (sanitize === false) {
+    return registryItem;
+  }
+
+  const options = sanitize === true ? {} : sanitize;
+  const { item, issues } = sanitizeRegistryItem(registryItem, options);
+  if (issues.length > 0) {
+    if (options.onIssues) {
+      options.onIssues(issues, registryItem);
+    } else {
+      console.warn(
+        `Removed ${issues.length} unsafe entries from theme "${registryItem.name}"`,
+        issues,
+      );
+    }
+  }
+  return item;
+}
@@ -0,0 +1,139 @@
+/**
+ * zod schemas for registry items and indexes, with errors that name the offending path
+ * e.g. "cssVars.dark.primary must be a string"
+ */
+
+import { z } from "zod";
+import { ThemeValidationError } from "./errors";
+import type { ThemeValidationIssue } from "./errors";
+import type { ThemeRegistryCss, ThemeRegistryItem } from "./types";
+
+const MAX_REPORTED_ISSUES = 3;
+
+const cssVarsGroupSchema = z.record(z.string(), z.string());
+
+const registryCssSchema: z.ZodType<ThemeRegistryCss> = z.lazy(() =>
+  z.record(z.string(), z.union([z.string(), registryCssSchema])),
+);
+
+export const themeRegistryItemSchema = z
+  .looseObject({
+    $schema: z.string().optional(),
+    name: z.string(),
+    type: z.string().optional(),
+    /** Item this one builds on: a URL, an item name in the same registry, or "none" */
+    extends: z.string().optional(),
+    /** Other items this one needs; URL entries are merged in before the item itself */
+    registryDependencies: z.array(z.string()).optional(),
+    // Only the groups a theme can apply are kept
+    cssVars: z
+      .object({
+        theme: cssVarsGroupSchema.optional(),
+        light: cssVarsGroupSchema.optional(),
+        dark: cssVarsGroupSchema.optional(),
+      })
+      .optional(),
+    css: registryCssSchema.optional(),
+  })
+  .refine((item) => item.cssVars !== undefined || item.css !== undefined, {
+    message: "has no cssVars or css to apply",
+  })
+  // Items that only carry css still get an empty cssVars so nothing downstream has to check
+  .transform((item) => ({ ...item, cssVars: item.cssVars ?? {} }));
+
+export const registryIndexSchema = z.looseObject({
+  name: z.string().optional(),
+  homepage: z.string().optional(),
+  items: z.array(z.unknown()),
+});
+
+const EXPECTED_NAMES: Record<string, string> = {
+  string: "a string",
+  object: "an object",
+  record: "an object",
+  array: "an array",
+  number: "a number",
+  boolean: "a boolean",
+};
+
+/**
+ * Short messages that read well after the path they belong to
+ */
+const issueMessages: z.core.$ZodErrorMap = (issue) => {
+  if (issue.code === "invalid_type") {
+    return issue.input === undefined
+      ? "is required"
+      : `must be ${EXPECTED_NAMES[issue.expected] ?? issue.expected}`;
+  }
+  if (issue.code === "invalid_union") {
+    return "must be a string or an object of rules";
+  }
+  return undefined;
+};
+
+/**
+ * Replace union failures with the issues of the branch that got furthest into the value,
+ * so a bad nested css value is reported at its own path instead of at the union
+ */
+function unwrapUnionIssues(issues: z.core.$ZodIssue[]): z.core.$ZodIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code !== "invalid_union" || issue.errors.length === 0) {
+      return [issue];
+    }
+    const depth = (branch: z.core.$ZodIssue[]) => Math.max(...branch.map((i) => i.path.length));
+    const branch = issue.errors.reduce((best, next) => (depth(next) > depth(best) ? next : best));
+    if (depth(branch) === 0) {
+      return [issue];
+    }
+    return unwrapUnionIssues(
+      branch.map((nested) => ({ ...nested, path: [...issue.path, ...nested.path] })),
+    );
+  });
+}
+
+function toValidationIssues(issues: z.core.$ZodIssue[]): ThemeValidationIssue[] {
+  return unwrapUnionIssues(issues).map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+}
+
+function formatIssues(issues: ThemeValidationIssue[]): string {
+  const messages = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message));
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    messages.push(`and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+  return messages.join("; ");
+}
+
+/**
+ * Parse data with a schema, throwing one readable error for everything that is wrong
+ * @param source - URL or other description of where the data came from
+ */
+export function parseWithSchema<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  source: string,
+  code: "invalid-theme" | "invalid-catalog" = "invalid-theme",
+): T {
+  const result = schema.safeParse(data, { error: issueMessages });
+  if (!result.success) {
+    const issues = toValidationIssues(result.error.issues);
+    const label = code === "invalid-catalog" ? "registry index" : "theme";
+    throw new ThemeValidationError(`Invalid ${label} at ${source}: ${formatIssues(issues)}`, {
+      code,
+      source,
+      issues,
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Check the shape of a registry item before it is merged or applied
+ */
+export function validateRegistryItem(item: unknown, source: string): ThemeRegistryItem {
+  return parseWithSchema(themeRegistryItemSchema, item, source);
+}
@@ -0,0 +1,121 @@
+/**
+ * Shadow scale derivation from tweakcn shadow primitives
+ */
+
+import type { ResolvedThemeMode, ThemeRegistryCssVars } from "./types";
+
+/**
+ * Tailwind shadow tokens, smallest to largest
+ */
+export const SHADOW_SCALE = [
+  "shadow-2xs",
+  "shadow-xs",
+  "shadow-sm",
+  "shadow",
+  "shadow-md",
+  "shadow-lg",
+  "shadow-xl",
+  "shadow-2xl",
+] as const;
+
+const SHADOW_PRIMITIVES = [
+  "shadow-color",
+  "shadow-opacity",
+  "shadow-blur",
+  "shadow-spread",
+  "shadow-offset-x",
+  "shadow-offset-y",
+];
+
+/**
+ * Values tweakcn uses when a primitive is left out
+ */
+const DEFAULT_PRIMITIVES: Record<string, string> = {
+  "shadow-color": "oklch(0 0 0)",
+  "shadow-opacity": "0.1",
+  "shadow-blur": "3px",
+  "shadow-spread": "0px",
+  "shadow-offset-x": "0",
+  "shadow-offset-y": "1px",
+};
+
+/**
+ * Older themes store colors as bare HSL channels ("0 0% 0%")
+ */
+function toCssColor(value: string): string {
+  const trimmed = value.trim();
+  return /^\d+(?:\.\d+)?\s+\d+(?:\.\d+)?%\s+\d+(?:\.\d+)?%$/.test(trimmed)
+    ? `hsl(${trimmed})`
+    : trimmed;
+}
+
+function pickShadowVars(vars: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(vars).filter(([key]) => key.startsWith("shadow")));
+}
+
+/**
+ * Build the shadow scale from primitives, layered the same way tweakcn's editor does
+ * Returns an empty object when the variables hold no primitives.
+ */
+export function deriveShadowScale(vars: Record<string, string>): Record<string, string> {
+  if (!SHADOW_PRIMITIVES.some((key) => vars[key] !== undefined)) {
+    return {};
+  }
+
+  const primitive = (key: string) => vars[key]?.trim() || DEFAULT_PRIMITIVES[key]!;
+  const shadowColor = toCssColor(primitive("shadow-color"));
+  const opacity = Number.parseFloat(primitive("shadow-opacity"));
+  const baseOpacity = Number.isFinite(opacity) ? opacity : 0.1;
+  const offsetX = primitive("shadow-offset-x");
+  const offsetY = primitive("shadow-offset-y");
+  const blur = primitive("shadow-blur");
+  const spread = primitive("shadow-spread");
+
+  const color = (multiplier: number) => {
+    const percent = Math.min(100, Math.round(baseOpacity * multiplier * 1000) / 10);
+    return `color-mix(in srgb, ${shadowColor} ${percent}%, transparent)`;
+  };
+  const firstLayer = (multiplier: number) =>
+    `${offsetX} ${offsetY} ${blur} ${spread} ${color(multiplier)}`;
+  const secondLayer = (layerOffsetY: string, layerBlur: string) =>
+    `${offsetX} ${layerOffsetY} ${layerBlur} calc(${spread} - 1px) ${color(1)}`;
+
+  return {
+    "shadow-2xs": firstLayer(0.5),
+    "shadow-xs": firstLayer(0.5),
+    "shadow-sm": `${firstLayer(1)}, ${secondLayer("1px", "2px")}`,
+    shadow: `${firstLayer(1)}, ${secondLayer("1px", "2px")}`,
+    "shadow-md": `${firstLayer(1)}, ${secondLayer("2px", "4px")}`,
+    "shadow-lg": `${firstLayer(1)}, ${secondLayer("4px", "6px")}`,
+    "shadow-xl": `${firstLayer(1)}, ${secondLayer("8px", "10px")}`,
+    "shadow-2xl": firstLayer(2.5),
+  };
+}
+
+/**
+ * Every shadow variable for a mode: theme values, overridden by the mode's own,
+ * with any scale step the theme didn't ship derived from the primitives
+ */
+export function resolveShadowVars(
+  cssVars: ThemeRegistryCssVars,
+  mode: ResolvedThemeMode,
+): Record<string, string> {
+  const vars = { ...pickShadowVars(cssVars.theme), ...pickShadowVars(cssVars[mode]) };
+  return { ...deriveShadowScale(vars), ...vars };
+}
+
+export interface ShadowSwatch {
+  name: string;
+  value: string;
+}
+
+/**
+ * The shadow scale of a theme in display order, for previews
+ */
+export function extractShadowScale(
+  cssVars: ThemeRegistryCssVars,
+  mode: ResolvedThemeMode = "light",
+): ShadowSwatch[] {
+  const vars = resolveShadowVars(cssVars, mode);
+  return SHADOW_SCALE.filter((name) => vars[name]).map((name) => ({ name, value: vars[name]! }));
+}
@@ -0,0 +1,163 @@
+/**
+ * Theme source resolvers
+ * Turn what users paste (editor and share links, GitHub pages, `@namespace/name`) into
+ * URLs that serve registry item JSON.
+ */
+
+import { ThemeValidationError } from "./errors";
+import type { ThemeSourceOptions, ThemeSourceResolver } from "./types";
+
+/**
+ * Namespaces known without configuration, in the shadcn `registries` format
+ */
+export const DEFAULT_REGISTRIES: Record<string, string> = {
+  "@tweakcn": "https://tweakcn.com/r/themes/{name}.json",
+};
+
+const NAMESPACED_NAME = /^(@[\w-]+)\/([\w.-]+)$/;
+
+export function isNamespacedName(input: string): boolean {
+  return NAMESPACED_NAME.test(input.trim());
+}
+
+function parseUrl(input: string): URL | null {
+  try {
+    return new URL(input);
+  } catch {
+    return null;
+  }
+}
+
+function getPathSegments(url: URL): string[] {
+  return url.pathname.split("/").filter(Boolean);
+}
+
+/**
+ * tweakcn editor links and share links, which community themes use too
+ * e.g. https://tweakcn.com/editor/theme?theme=candyland, https://tweakcn.com/themes/abc123
+ */
+export const tweakcnResolver: ThemeSourceResolver = (input) => {
+  const url = parseUrl(input);
+  if (!url || url.hostname.replace(/^www\./, "") !== "tweakcn.com") {
+    return null;
+  }
+
+  const theme = url.searchParams.get("theme");
+  if (url.pathname === "/editor/theme" && theme) {
+    return `https://tweakcn.com/r/themes/${theme}.json`;
+  }
+  const [section, id, ...rest] = getPathSegments(url);
+  if (section === "themes" && id && rest.length === 0) {
+    return `https://tweakcn.com/r/themes/${id}.json`;
+  }
+  if (section === "editor" && id === "theme" && rest.length === 1) {
+    return `https://tweakcn.com/r/themes/${rest[0]}.json`;
+  }
+  return null;
+};
+
+/**
+ * File pages on GitHub, served raw
+ * e.g. https://github.com/acme/themes/blob/main/ocean.json
+ *   -> https://raw.githubusercontent.com/acme/themes/main/ocean.json
+ */
+export const githubResolver: ThemeSourceResolver = (input) => {
+  const url = parseUrl(input);
+  if (!url || url.hostname !== "github.com") {
+    return null;
+  }
+  const [owner, repo, kind, ...path] = getPathSegments(url);
+  if (!owner || !repo || (kind !== "blob" && kind !== "raw") || path.length < 2) {
+    return null;
+  }
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${path.join("/")}`;
+};
+
+/**
+ * Gist pages, served raw; multi-file gists need a link to the file's raw URL instead
+ * e.g. https://gist.github.com/octocat/abc123 -> https://gist.githubusercontent.com/octocat/abc123/raw
+ */
+export const gistResolver: ThemeSourceResolver = (input) => {
+  const url = parseUrl(input);
+  if (!url || url.hostname !== "gist.github.com") {
+    return null;
+  }
+  const [user, id, ...rest] = getPathSegments(url);
+  if (!user || !id || rest.length > 0) {
+    return null;
+  }
+  return `https://gist.githubusercontent.com/${user}/${id}/raw`;
+};
+
+/**
+ * Theme pages on ui.shadcn.com
+ * e.g. https://ui.shadcn.com/themes/zinc -> https://ui.shadcn.com/r/themes/zinc.json
+ */
+export const shadcnResolver: ThemeSourceResolver = (input) => {
+  const url = parseUrl(input);
+  if (!url || url.hostname !== "ui.shadcn.com") {
+    return null;
+  }
+  const [section, name, ...rest] = getPathSegments(url);
+  if (section !== "themes" || !name || rest.length > 0) {
+    return null;
+  }
+  return `https://ui.shadcn.com/r/themes/${name}.json`;
+};
+
+/**
+ * Resolver for `@namespace/name` items, using the shadcn `registries` format
+ * where `{name}` in the template is replaced by the item name.
+ * Throws for namespaces it doesn't know, since nothing else could resolve them.
+ */
+export function createNamespaceResolver(registries: Record<string, string>): ThemeSourceResolver {
+  return (input) => {
+    const match = NAMESPACED_NAME.exec(input.trim());
+    if (!match) {
+      return null;
+    }
+    const [, namespace, name] = match;
+    const template = registries[namespace!];
+    if (!template) {
+      throw new ThemeValidationError(
+        `Unknown registry namespace "${namespace}". Add it to the registries option, e.g. { "${namespace}": "https://example.com/r/{name}.json" }`,
+        { code: "unknown-namespace", source: input },
+      );
+    }
+    return template.replace("{name}", name!);
+  };
+}
+
+/**
+ * Built-in resolvers, tried after any configured ones
+ */
+export const DEFAULT_SOURCE_RESOLVERS: ThemeSourceResolver[] = [
+  tweakcnResolver,
+  githubResolver,
+  gistResolver,
+  shadcnResolver,
+];
+
+/**
+ * Resolve a theme source to a fetchable URL
+ * Configured resolvers run first, then `@namespace/name` lookup, then the built-ins;
+ * the first one to return a URL wins. Inputs no resolver recognizes are returned as-is.
+ */
+export function resolveThemeUrl(
+  input: string,
+  options: Pick<ThemeSourceOptions, "sourceResolvers" | "registries"> = {},
+): string {
+  const source = input.trim();
+  const resolvers = [
+    ...(options.sourceResolvers ?? []),
+    createNamespaceResolver({ ...DEFAULT_REGISTRIES, ...options.registries }),
+    ...DEFAULT_SOURCE_RESOLVERS,
+  ];
+  for (const resolve of resolvers) {
+    const resolved = resolve(source);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return source;
+}
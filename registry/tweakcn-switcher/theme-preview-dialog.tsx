@@ -2,7 +2,8 @@
  * ThemePreviewDialog - A dialog to preview theme colors
  */
 
-import { X, Loader2 } from "lucide-react";
+import { Copy, X, Loader2 } from "lucide-react";
+import { toast } from "sonner";
 import {
   Dialog,
   DialogClose,
@@ -13,7 +14,8 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import type { ThemeRegistryItem, ThemeOption } from "./types";
-import { extractColorSwatches } from "./utils";
+import { extractShadowScale } from "./shadows";
+import { extractColorSwatches, renderThemeToCss } from "./utils";
 
 interface ThemePreviewDialogProps {
   open: boolean;
@@ -76,6 +78,21 @@ export function ThemePreviewDialog({
   }
 
   const colors = registryItem ? extractColorSwatches(registryItem, mode) : [];
+  const shadows = registryItem ? extractShadowScale(registryItem.cssVars, mode) : [];
+
+  const handleCopyCss = async () => {
+    if (!registryItem) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(
+        renderThemeToCss(registryItem, { includeThemeInline: true, output: "tailwind" }),
+      );
+      toast.success("Theme CSS copied to clipboard");
+    } catch {
+      toast.error("Failed to copy theme CSS");
+    }
+  };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -83,20 +100,33 @@ export function ThemePreviewDialog({
         <DialogHeader className="min-w-0">
           <DialogTitle className="flex items-center justify-between min-w-0 gap-2">
             <span className="truncate">{theme.name}</span>
-            <DialogClose
-              render={
-                <Button
-                  variant="ghost"
-                  size="icon-xs"
-                  className="h-6 w-6 shrink-0"
-                  aria-label="Close preview"
-                >
-                  <X className="size-3" />
-                </Button>
-              }
-            />
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                variant="ghost"
+                size="icon-xs"
+                className="h-6 w-6"
+                onClick={handleCopyCss}
+                disabled={!registryItem || isLoading}
+                aria-label="Copy theme CSS"
+                title="Copy theme CSS"
+              >
+                <Copy className="size-3" />
+              </Button>
+              <DialogClose
+                render={
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    className="h-6 w-6"
+                    aria-label="Close preview"
+                  >
+                    <X className="size-3" />
+                  </Button>
+                }
+              />
+            </div>
           </DialogTitle>
-          <DialogDescription>Color palette preview</DialogDescription>
+          <DialogDescription>Color palette and shadow preview</DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
@@ -156,6 +186,25 @@ export function ThemePreviewDialog({
                   })}
                 </div>
               </div>
+
+              {/* Shadow Scale */}
+              {shadows.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-muted-foreground">Shadows</div>
+                  <div className="grid grid-cols-4 gap-3 p-3 rounded-md bg-muted/30">
+                    {shadows.map((shadow) => (
+                      <div
+                        key={shadow.name}
+                        className="flex h-12 items-center justify-center rounded-md border border-border bg-background text-[10px] font-mono text-muted-foreground"
+                        style={{ boxShadow: shadow.value }}
+                        title={shadow.value}
+                      >
+                        {shadow.name.replace(/^shadow-?/, "") || "base"}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </>
           ) : (
             <div className="py-8 text-sm text-muted-foreground text-center">
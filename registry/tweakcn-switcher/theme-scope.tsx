@@ -0,0 +1,141 @@
+/**
+ * ThemeScope - Applies a theme to a subtree instead of the whole document
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type {
+  FontLoadingOptions,
+  FontProvider,
+  SanitizeOptions,
+  StyleInjection,
+  ThemeCache,
+  ThemeEngine,
+  ThemeFetcher,
+  ThemeOption,
+  ThemeRegistryItem,
+  ThemeRequestInit,
+  ThemeSourceOptions,
+} from "./types";
+import { FontLoadError, toTweakcnError } from "./errors";
+import type { TweakcnError } from "./errors";
+import { isAbortError } from "./request";
+import { applyThemeFromRegistry, resolveThemeOption, revertTheme } from "./utils";
+
+export interface ThemeScopeProps extends Omit<React.ComponentProps<"div">, "onError"> {
+  theme?: ThemeOption | null;
+  registryItem?: ThemeRegistryItem | null;
+  mode?: "light" | "dark";
+  engine?: ThemeEngine;
+  fontProvider?: FontProvider;
+  fontLoading?: FontLoadingOptions;
+  nonce?: string;
+  styleInjection?: StyleInjection;
+  /** Sanitize `theme` sources before applying them. Defaults to true */
+  sanitize?: boolean | SanitizeOptions;
+  cache?: boolean | ThemeCache;
+  fetcher?: ThemeFetcher;
+  requestInit?: ThemeRequestInit;
+  /** Called when the theme fails to load or apply, or its fonts fail to load */
+  onError?: (error: TweakcnError) => void;
+}
+
+export function ThemeScope({
+  theme,
+  registryItem,
+  mode = "light",
+  engine,
+  fontProvider,
+  fontLoading,
+  nonce,
+  styleInjection,
+  sanitize,
+  cache,
+  fetcher,
+  requestInit,
+  onError,
+  children,
+  ...props
+}: ThemeScopeProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [loadedItem, setLoadedItem] = useState<ThemeRegistryItem | null>(null);
+  const themeUrl = theme?.url;
+  const themeCss = theme?.css;
+  const themeName = theme?.name;
+  // Often passed inline, so they live in a ref instead of the effect deps
+  const sourceOptionsRef = useRef<ThemeSourceOptions>({});
+  sourceOptionsRef.current = { sanitize, cache, fetcher, requestInit };
+  const applyOptionsRef = useRef({ fontProvider, fontLoading, styleInjection });
+  applyOptionsRef.current = { fontProvider, fontLoading, styleInjection };
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // Load the theme option unless a registry item was passed directly
+  useEffect(() => {
+    if (registryItem || (!themeUrl && !themeCss)) {
+      setLoadedItem(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    resolveThemeOption(
+      {
+        id: "scope",
+        name: themeName ?? "scoped-theme",
+        url: themeUrl,
+        css: themeCss,
+      },
+      { ...sourceOptionsRef.current, signal: controller.signal },
+    )
+      .then((item) => {
+        if (!controller.signal.aborted) {
+          setLoadedItem(item);
+        }
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) {
+          // Logged when nobody listens, so failures don't go unnoticed
+          (onErrorRef.current ?? console.error)(toTweakcnError(err, "Failed to load scoped theme"));
+        }
+      });
+
+    return () => controller.abort();
+  }, [registryItem, themeUrl, themeCss, themeName]);
+
+  const item = registryItem ?? loadedItem;
+
+  useEffect(() => {
+    const target = ref.current;
+    if (!target) {
+      return;
+    }
+    if (!item) {
+      revertTheme({ target });
+      return;
+    }
+    applyThemeFromRegistry(item, mode, {
+      ...applyOptionsRef.current,
+      target,
+      engine,
+      nonce,
+      onFontError: (failures) => onErrorRef.current?.(new FontLoadError(failures)),
+    }).catch((err) =>
+      (onErrorRef.current ?? console.error)(toTweakcnError(err, "Failed to apply scoped theme")),
+    );
+  }, [item, mode, engine, nonce]);
+
+  // Drop the scoped style elements when the scope goes away
+  useEffect(() => {
+    const target = ref.current;
+    return () => {
+      if (target) {
+        revertTheme({ target });
+      }
+    };
+  }, []);
+
+  return (
+    <div ref={ref} {...props}>
+      {children}
+    </div>
+  );
+}
@@ -2,207 +2,512 @@
  * Utility functions for applying theme CSS variables
  */
 
-import type { ThemeRegistryItem, ThemeRegistryCssVars } from "./types";
+import type {
+  ApplyThemeOptions,
+  FontProvider,
+  StyleInjectionOptions,
+  ResolvedThemeMode,
+  ThemeCache,
+  ThemeCatalog,
+  ThemeCatalogOptions,
+  ThemeOption,
+  ThemeSourceOptions,
+  ThemeRegistryItem,
+  ThemeRegistryCssVars,
+} from "./types";
+import {
+  buildFontOverrideCss,
+  collectThemeFonts,
+  getFontResolver,
+  getFontVars,
+  loadThemeFonts,
+  preloadThemeFonts,
+  removeFontLinks,
+} from "./fonts";
+import { serializeRegistryCss, splitSelectorList } from "./registry-css";
+import {
+  getRegistryReferences,
+  MAX_REGISTRY_DEPTH,
+  mergeRegistryItems,
+  parseRegistryIndex,
+  parseThemeItem,
+} from "./registry-item";
+import type { RegistryCssOutput } from "./registry-css";
+import { resolveThemeCache } from "./cache";
+import { parseCss } from "./css-parser";
+import type { CssNode } from "./css-parser";
+import { ThemeFetchError, ThemeParseError, ThemeValidationError, TweakcnError } from "./errors";
+import { fetchWithRetry, isAbortError } from "./request";
+import type { RequestOptions } from "./request";
+import { sanitizeThemeSource } from "./sanitize";
+import { validateRegistryItem } from "./schema";
+import { isNamespacedName, resolveThemeUrl } from "./sources";
+import { resolveShadowVars, SHADOW_SCALE } from "./shadows";
+import { removeStyleElements, upsertStyleElement } from "./stylesheets";
+
+interface PreviousPropertyValue {
+  value: string;
+  priority: string;
+}
+
+/**
+ * Inline properties set by the engine, per element, with the value they replaced
+ */
+const appliedProperties = new WeakMap<HTMLElement, Map<string, PreviousPropertyValue>>();
 
 function applyCSSVariable(
   key: string,
   value: string,
   root: HTMLElement = document.documentElement,
 ) {
+  const property = `--${key}`;
+
+  // Remember the value we are about to replace, unless we already own this property
+  let record = appliedProperties.get(root);
+  if (!record) {
+    record = new Map();
+    appliedProperties.set(root, record);
+  }
+  if (!record.has(property)) {
+    record.set(property, {
+      value: root.style.getPropertyValue(property),
+      priority: root.style.getPropertyPriority(property),
+    });
+  }
+
   // Use setProperty for CSS custom properties
-  root.style.setProperty(`--${key}`, value);
+  root.style.setProperty(property, value);
 }
 
 /**
- * Remove all font links added by tweakcn-switcher
+ * Restore inline properties set by the engine to the values they had before
+ * Properties listed in `keep` stay applied and remain tracked
  */
-function removeFontLinks() {
-  const existing = document.querySelectorAll('link[data-tweakcn-switcher-font="true"]');
-  existing.forEach((el) => el.remove());
+function restoreCSSVariables(root: HTMLElement, keep?: Set<string>) {
+  const record = appliedProperties.get(root);
+  if (!record) {
+    return;
+  }
+
+  record.forEach((previous, property) => {
+    if (keep?.has(property)) {
+      return;
+    }
+    if (previous.value) {
+      root.style.setProperty(property, previous.value, previous.priority);
+    } else {
+      root.style.removeProperty(property);
+    }
+    record.delete(property);
+  });
 }
 
+let scopeCounter = 0;
+
 /**
- * Extract font family names from a font-family CSS value
- * Handles values like "Roboto, sans-serif" or '"Inter Variable", sans-serif'
+ * Get the owner key used to tag injected style elements for a target.
+ * The document root keeps the historical "true" value, scoped elements get a unique id.
  */
-function extractFontNames(fontFamily: string): string[] {
-  // Remove quotes and split by comma
-  const fonts = fontFamily
-    .split(",")
-    .map((f) => f.trim().replace(/^["']|["']$/g, ""))
-    .filter((f) => f && !f.match(/^(sans-serif|serif|monospace| cursive|fantasy)$/i));
-
-  return fonts;
+function getStyleOwner(target: HTMLElement): string {
+  if (target === document.documentElement) {
+    return "true";
+  }
+  if (!target.dataset.tweakcnScope) {
+    scopeCounter += 1;
+    target.dataset.tweakcnScope = `scope-${scopeCounter}`;
+  }
+  return target.dataset.tweakcnScope;
 }
 
 /**
- * Try to load a font from Google Fonts
- * Returns the Google Fonts URL if successful, null otherwise
+ * Remove the style elements injected for a target element
  */
-function getGoogleFontsUrl(fontName: string): string | null {
-  // Remove spaces and special characters for Google Fonts API
-  const normalizedName = fontName.replace(/\s+/g, "+").replace(/['"]/g, "").trim();
+function removeInjectedStyles(target: HTMLElement) {
+  const owner = getStyleOwner(target);
+  removeStyleElements("data-tweakcn-switcher", owner);
+  removeStyleElements("data-tweakcn-switcher-font-vars", owner);
+  removeStyleElements("data-tweakcn-switcher-theme", owner);
+  removeStyleElements("data-tweakcn-switcher-snapshot", owner);
+}
 
-  if (!normalizedName) {
-    return null;
-  }
+/**
+ * Theme-level variables (radius, font-*, shadow, tracking-*, spacing) only come from cssVars.theme
+ * Shadows are the exception: resolveShadowVars merges the mode's own values back in
+ */
+function isThemeLevelKey(key: string): boolean {
+  return (
+    key.startsWith("font-") ||
+    key.startsWith("radius") ||
+    key.startsWith("shadow") ||
+    key.startsWith("tracking-") ||
+    key.startsWith("spacing")
+  );
+}
 
-  // Google Fonts API URL
-  return `https://fonts.googleapis.com/css2?family=${normalizedName}:wght@400;500;600;700&display=swap`;
+function buildDeclarationBlock(selector: string, vars: Record<string, string>): string {
+  const declarations = Object.entries(vars)
+    .map(([key, value]) => `  --${key}: ${value};`)
+    .join("\n");
+  return `${selector} {\n${declarations}\n}`;
 }
 
 /**
- * Load a font from Google Fonts URL
+ * Map theme variables to Tailwind v4 theme keys, mirroring the `@theme inline` block of shadcn's globals.css
  */
-function loadGoogleFont(url: string): Promise<void> {
-  return new Promise<void>((resolve) => {
-    // Check if link already exists
-    const existing = document.querySelector(`link[href="${url}"]`);
-    if (existing) {
-      resolve();
-      return;
+function buildThemeInlineBlock(registryItem: ThemeRegistryItem): string {
+  const { theme = {}, light = {}, dark = {} } = registryItem.cssVars;
+  const declarations: string[] = [];
+
+  const colorKeys = new Set([...Object.keys(light), ...Object.keys(dark)]);
+  colorKeys.forEach((key) => {
+    if (!isThemeLevelKey(key)) {
+      declarations.push(`  --color-${key}: var(--${key});`);
+    }
+  });
+
+  Object.keys(theme).forEach((key) => {
+    if (key === "radius") {
+      declarations.push(
+        "  --radius-sm: calc(var(--radius) - 4px);",
+        "  --radius-md: calc(var(--radius) - 2px);",
+        "  --radius-lg: var(--radius);",
+        "  --radius-xl: calc(var(--radius) + 4px);",
+      );
+    } else if (key.startsWith("font-") || key.startsWith("tracking-")) {
+      declarations.push(`  --${key}: var(--${key});`);
     }
+  });
 
-    const link = document.createElement("link");
-    link.rel = "stylesheet";
-    link.href = url;
-    link.setAttribute("data-tweakcn-switcher-font", "true");
+  const shadowKeys = new Set([
+    ...Object.keys(resolveShadowVars(registryItem.cssVars, "light")),
+    ...Object.keys(resolveShadowVars(registryItem.cssVars, "dark")),
+  ]);
+  SHADOW_SCALE.filter((key) => shadowKeys.has(key)).forEach((key) => {
+    declarations.push(`  --${key}: var(--${key});`);
+  });
 
-    link.onload = () => resolve();
-    link.onerror = () => {
-      // Silently fail - let the dev handle it if needed
-      resolve();
-    };
+  return `@theme inline {\n${declarations.join("\n")}\n}`;
+}
+
+export interface CompileThemeStylesheetOptions {
+  /** Selector the variables are scoped to. Defaults to `:root` with `.dark` for dark mode */
+  scope?: string | null;
+  /**
+   * Unscoped selector for the light variables, with `.dark` appended for dark mode,
+   * e.g. `:root:root` to outrank the app's own `:root` and `.dark` rules in any order
+   */
+  rootSelector?: string;
+  /** Emit a Tailwind v4 `@theme inline` block, useful when the output is written to a CSS file */
+  includeThemeInline?: boolean;
+  /** Emit the font overrides. Defaults to true */
+  includeFonts?: boolean;
+  /** How the registry `css` object is written. Defaults to "browser" */
+  output?: RegistryCssOutput;
+}
+
+/**
+ * Compile a registry item into one stylesheet holding both modes
+ * Light values go on the root selector and dark values on `.dark`, so switching modes
+ * only needs the class to change.
+ */
+export function compileThemeStylesheet(
+  registryItem: ThemeRegistryItem,
+  options: CompileThemeStylesheetOptions = {},
+): string {
+  const { scope = null, includeThemeInline = false, includeFonts = true, output } = options;
+  const { cssVars, css } = registryItem;
+  const registryCss = css ? serializeRegistryCss(css, { scope, output }) : null;
+  const rootSelector = scope ?? options.rootSelector ?? ":root";
+  const darkSelector = scope
+    ? `${scope}.dark`
+    : options.rootSelector
+      ? `${options.rootSelector}.dark`
+      : ".dark";
 
-    document.head.appendChild(link);
+  const lightVars: Record<string, string> = { ...cssVars.theme };
+  Object.entries(cssVars.light ?? {}).forEach(([key, value]) => {
+    if (!isThemeLevelKey(key)) {
+      lightVars[key] = value;
+    }
+  });
+  const lightShadows = resolveShadowVars(cssVars, "light");
+  Object.assign(lightVars, lightShadows);
+  const darkVars: Record<string, string> = {};
+  Object.entries(cssVars.dark ?? {}).forEach(([key, value]) => {
+    if (!isThemeLevelKey(key)) {
+      darkVars[key] = value;
+    }
+  });
+  // Only dark shadows that differ from light need their own declarations
+  Object.entries(resolveShadowVars(cssVars, "dark")).forEach(([key, value]) => {
+    if (lightShadows[key] !== value) {
+      darkVars[key] = value;
+    }
   });
+
+  const blocks = [
+    // Imports are only valid at the top of a stylesheet
+    registryCss?.imports ?? "",
+    buildDeclarationBlock(rootSelector, lightVars),
+    buildDeclarationBlock(darkSelector, darkVars),
+  ];
+
+  const fontVars = getFontVars(cssVars.theme);
+  if (includeFonts && Object.keys(fontVars).length > 0) {
+    blocks.push(buildFontOverrideCss(fontVars, scope));
+  }
+  if (registryCss?.rules) {
+    blocks.push(registryCss.rules);
+  }
+  if (includeThemeInline) {
+    blocks.push(buildThemeInlineBlock(registryItem));
+  }
+
+  return blocks.filter(Boolean).join("\n\n");
+}
+
+export interface RenderThemeToCssOptions extends CompileThemeStylesheetOptions {
+  /** Where the font imports point; "none" leaves them out. Defaults to "google" */
+  fontProvider?: FontProvider;
 }
 
 /**
- * Try to load fonts from Google Fonts based on font-family value
- * This is best-effort - if it fails, the dev can handle it
+ * Render a registry item to CSS text without touching the DOM
+ * Font `@import`s come first, then the compiled theme, then `@font-face` rules for
+ * self-hosted fonts. Safe to call on the server, e.g. to inline the theme into SSR output.
  */
-async function tryLoadFontsFromGoogleFonts(fontFamily: string): Promise<void> {
-  const fontNames = extractFontNames(fontFamily);
+export function renderThemeToCss(
+  registryItem: ThemeRegistryItem,
+  options: RenderThemeToCssOptions = {},
+): string {
+  const { fontProvider, ...compileOptions } = options;
+  const imports: string[] = [];
+  const fontFaces: string[] = [];
 
-  if (fontNames.length === 0) {
-    return;
+  if (compileOptions.includeFonts !== false) {
+    const resolve = getFontResolver(fontProvider);
+    collectThemeFonts(getFontVars(registryItem.cssVars.theme)).forEach((font) => {
+      const source = resolve?.(font);
+      if (source?.type === "stylesheet") {
+        imports.push(`@import url("${source.url}");`);
+      } else if (source?.type === "font-face") {
+        fontFaces.push(source.css);
+      }
+    });
   }
 
-  // Try to load each font from Google Fonts
-  const loadPromises = fontNames.map((fontName) => {
-    const googleFontsUrl = getGoogleFontsUrl(fontName);
-    if (googleFontsUrl) {
-      return loadGoogleFont(googleFontsUrl);
-    }
-    return Promise.resolve();
-  });
+  return [imports.join("\n"), compileThemeStylesheet(registryItem, compileOptions), ...fontFaces]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+const DEFAULT_FONT_TIMEOUT_MS = 3000;
+
+/**
+ * Latest apply per target, so fonts that finish loading late never overwrite a newer theme
+ */
+const applyTokens = new WeakMap<HTMLElement, number>();
+
+/**
+ * Write the font override style for a theme, or clear the overrides if it has no fonts
+ */
+function applyThemeFonts(
+  fontVars: Record<string, string>,
+  root: HTMLElement,
+  owner: string,
+  scope: string | null,
+  injection: StyleInjectionOptions,
+) {
+  if (Object.keys(fontVars).length > 0) {
+    // Inject a style to override Tailwind's @theme variables with higher specificity
+    upsertStyleElement(
+      "data-tweakcn-switcher-font-vars",
+      owner,
+      buildFontOverrideCss(fontVars, scope),
+      injection,
+    );
+    return;
+  }
 
-  await Promise.all(loadPromises);
+  // If the theme has no fonts, remove any font overrides we may have set
+  removeStyleElements("data-tweakcn-switcher-font-vars", owner);
+  if (root === document.documentElement && document.body) {
+    document.body.style.removeProperty("font-family");
+  }
+  root.style.removeProperty("font-family");
 }
 
 export async function applyThemeFromRegistry(
   registryItem: ThemeRegistryItem,
-  mode: "light" | "dark" = "light",
+  mode: ResolvedThemeMode = "light",
+  options: ApplyThemeOptions = {},
 ) {
-  const root = document.documentElement;
+  const root = options.target ?? document.documentElement;
+  const isDocumentRoot = root === document.documentElement;
+  const owner = getStyleOwner(root);
+  const scope = isDocumentRoot ? null : `[data-tweakcn-scope="${owner}"]`;
   const { cssVars, css } = registryItem;
+  const fontVars = getFontVars(cssVars.theme);
+  const fonts = collectThemeFonts(fontVars);
+  const {
+    strategy = "block",
+    timeoutMs = DEFAULT_FONT_TIMEOUT_MS,
+    preload = true,
+  } = options.fontLoading ?? {};
+
+  const injection: StyleInjectionOptions = {
+    nonce: options.nonce,
+    styleInjection: options.styleInjection,
+  };
 
-  // Remove existing font variable override styles
-  const existingFontStyle = document.querySelector('style[data-tweakcn-switcher-font-vars="true"]');
-  if (existingFontStyle) {
-    existingFontStyle.remove();
+  if (options.signal?.aborted) {
+    return;
   }
+  const token = (applyTokens.get(root) ?? 0) + 1;
+  applyTokens.set(root, token);
 
-  // Apply theme-level variables (common to both light and dark)
-  let fontSansValue: string | null = null;
-  if (cssVars.theme) {
-    Object.entries(cssVars.theme).forEach(([key, value]) => {
-      applyCSSVariable(key, value, root);
+  if (preload) {
+    preloadThemeFonts(fonts, options.fontProvider, injection);
+  }
 
-      // Track font-sans value for special handling
-      if (key === "font-sans" && value) {
-        fontSansValue = value;
+  const fontsLoaded = loadThemeFonts(fonts, options.fontProvider, { timeoutMs, ...injection }).then(
+    (failures) => {
+      if (failures.length > 0) {
+        options.onFontError?.(failures);
       }
-    });
-  }
+      return failures;
+    },
+  );
+  const finishFonts = () => {
+    if (applyTokens.get(root) !== token) {
+      return;
+    }
+    applyThemeFonts(fontVars, root, owner, scope, injection);
+    if (isDocumentRoot) {
+      // The pre-hydration snapshot has served its purpose once the live theme is in place
+      removeStyleElements("data-tweakcn-switcher-snapshot", owner);
+      // Font links are shared by the whole document, so scoped themes leave them alone
+      removeFontLinks(new Set(fonts.map((font) => font.family)));
+    }
+  };
 
-  // Try to load fonts from Google Fonts if font-sans is set
-  if (fontSansValue) {
-    // Try to load from Google Fonts (best-effort, fails silently)
-    await tryLoadFontsFromGoogleFonts(fontSansValue).catch(() => {
-      // Silently fail - let the dev handle font loading if needed
-    });
+  if (strategy === "block") {
+    await fontsLoaded;
+    if (applyTokens.get(root) !== token || options.signal?.aborted) {
+      // A newer apply started or this one was cancelled while fonts were loading
+      return;
+    }
+  }
 
-    // Inject a style to override Tailwind's @theme variable with higher specificity
-    const fontStyle = document.createElement("style");
-    fontStyle.setAttribute("data-tweakcn-switcher-font-vars", "true");
-    // Escape any quotes in the font value for CSS
-    const escapedFontValue = (fontSansValue as string).replace(/"/g, '\\"');
-    fontStyle.textContent = `
-      :root {
-        --font-sans: ${escapedFontValue} !important;
-      }
-      html, body {
-        font-family: ${escapedFontValue} !important;
-      }
-    `;
-    document.head.appendChild(fontStyle);
+  if (options.engine === "stylesheet") {
+    // Everything lives in one managed stylesheet; drop state from the inline engine
+    restoreCSSVariables(root);
+    removeStyleElements("data-tweakcn-switcher", owner);
+    upsertStyleElement(
+      "data-tweakcn-switcher-theme",
+      owner,
+      compileThemeStylesheet(registryItem, { scope, includeFonts: false }),
+      injection,
+    );
   } else {
-    // If no font-sans in theme, remove any inline font-family styles we may have set
-    removeFontLinks();
-    root.style.removeProperty("font-family");
-    if (document.body) {
-      document.body.style.removeProperty("font-family");
+    removeStyleElements("data-tweakcn-switcher-theme", owner);
+
+    const appliedKeys = new Set<string>();
+    const setVariable = (key: string, value: string) => {
+      applyCSSVariable(key, value, root);
+      appliedKeys.add(`--${key}`);
+    };
+
+    // Apply theme-level variables (common to both light and dark)
+    // Fonts are left to the font override style so they can follow the loading strategy
+    if (cssVars.theme) {
+      Object.entries(cssVars.theme).forEach(([key, value]) => {
+        if (!key.startsWith("font-")) {
+          setVariable(key, value);
+        }
+      });
     }
-  }
 
-  // Apply mode-specific variables (excluding theme-level variables)
-  const modeVars = cssVars[mode];
-  if (modeVars) {
-    Object.entries(modeVars).forEach(([key, value]) => {
-      // Skip theme-level variables (radius, font-*, shadow, tracking-*, spacing)
-      // These should only come from cssVars.theme
-      if (
-        !key.startsWith("font-") &&
-        !key.startsWith("radius") &&
-        !key.startsWith("shadow") &&
-        !key.startsWith("tracking-") &&
-        !key.startsWith("spacing")
-      ) {
-        applyCSSVariable(key, value, root);
-      }
+    // Apply mode-specific variables (excluding theme-level variables)
+    const modeVars = cssVars[mode];
+    if (modeVars) {
+      Object.entries(modeVars).forEach(([key, value]) => {
+        if (!isThemeLevelKey(key)) {
+          setVariable(key, value);
+        }
+      });
+    }
+
+    // Shadows may differ per mode and fill in any scale step derived from the primitives
+    Object.entries(resolveShadowVars(cssVars, mode)).forEach(([key, value]) => {
+      setVariable(key, value);
     });
-  }
 
-  // Apply CSS layer base styles if present
-  if (css?.["@layer base"]) {
-    // Remove existing style elements
-    const existing = document.querySelectorAll('style[data-tweakcn-switcher="true"]');
-    existing.forEach((el) => el.remove());
+    // Apply the registry css rules if present, removing those of a previous theme otherwise
+    const registryCss = css ? serializeRegistryCss(css, { scope }) : null;
+    if (registryCss && (registryCss.imports || registryCss.rules)) {
+      upsertStyleElement(
+        "data-tweakcn-switcher",
+        owner,
+        [registryCss.imports, registryCss.rules].filter(Boolean).join("\n\n"),
+        injection,
+      );
+    } else {
+      removeStyleElements("data-tweakcn-switcher", owner);
+    }
 
-    const baseStyles = css["@layer base"];
-    const styleElement = document.createElement("style");
-    styleElement.setAttribute("data-tweakcn-switcher", "true");
+    // Variables left over from a previous theme go back to their stylesheet values
+    restoreCSSVariables(root, appliedKeys);
+  }
 
-    // Combine all selectors into one style element
-    const styleContent = Object.entries(baseStyles)
-      .map(([selector, styles]) => {
-        const props = Object.entries(styles)
-          .map(([prop, val]) => `${prop}: ${val};`)
-          .join(" ");
-        return `${selector} { ${props} }`;
-      })
-      .join("\n");
+  applyMode(mode, root);
 
-    styleElement.textContent = `@layer base {\n${styleContent}\n}`;
-    document.head.appendChild(styleElement);
+  if (strategy === "defer") {
+    // Keep the previous fonts until the new ones are ready
+    void fontsLoaded.then(finishFonts);
+  } else {
+    finishFonts();
   }
+}
 
+/**
+ * Toggle the `.dark` class on the target without touching theme variables
+ */
+export function applyMode(mode: ResolvedThemeMode, target: HTMLElement = document.documentElement) {
   if (mode === "dark") {
-    root.classList.add("dark");
+    target.classList.add("dark");
   } else {
-    root.classList.remove("dark");
+    target.classList.remove("dark");
+  }
+}
+
+export const SYSTEM_DARK_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Read the operating system color scheme, falling back to light outside the browser
+ */
+export function getSystemMode(): ResolvedThemeMode {
+  if (typeof window === "undefined" || typeof window.matchMedia !== "function") {
+    return "light";
+  }
+  return window.matchMedia(SYSTEM_DARK_QUERY).matches ? "dark" : "light";
+}
+
+/**
+ * Undo everything applyThemeFromRegistry did to a target
+ * Restores the inline properties it replaced and removes its injected styles, so the
+ * app's own stylesheet theme shows again. The `.dark` class is left to the current mode.
+ */
+export function revertTheme(options: ApplyThemeOptions = {}) {
+  const root = options.target ?? document.documentElement;
+  // Invalidate fonts still loading for a deferred apply
+  applyTokens.set(root, (applyTokens.get(root) ?? 0) + 1);
+
+  restoreCSSVariables(root);
+  removeInjectedStyles(root);
+
+  if (root === document.documentElement) {
+    removeFontLinks();
   }
 }
 
@@ -265,71 +570,228 @@ export function validateUrl(url: string): { valid: boolean; error?: string } {
 }
 
 /**
- * Normalizes tweakcn.com editor URLs to theme JSON URLs
+ * Normalizes pasted theme sources to theme JSON URLs
  * Transforms: https://tweakcn.com/editor/theme?theme=candyland
  * To: https://tweakcn.com/r/themes/candyland.json
+ * See `resolveThemeUrl` for the other formats. Unlike it, this never throws and
+ * returns the input when it can't be resolved, so it is safe for comparisons.
  */
-export function normalizeTweakcnUrl(url: string): string {
+export function normalizeTweakcnUrl(
+  url: string,
+  options: Pick<ThemeSourceOptions, "sourceResolvers" | "registries"> = {},
+): string {
   try {
-    const urlObj = new URL(url);
-    
-    // Check if it's a tweakcn.com editor URL with a theme query parameter
-    if (
-      urlObj.hostname === "tweakcn.com" &&
-      urlObj.pathname === "/editor/theme" &&
-      urlObj.searchParams.has("theme")
-    ) {
-      const themeName = urlObj.searchParams.get("theme");
-      if (themeName) {
-        // Transform to the theme JSON URL format
-        return `https://tweakcn.com/r/themes/${themeName}.json`;
-      }
-    }
-    
-    // Return the original URL if it doesn't match the pattern
-    return url;
+    return resolveThemeUrl(url, options);
   } catch {
-    // If URL parsing fails, return the original URL
     return url;
   }
 }
 
-export async function fetchThemeFromUrl(url: string): Promise<ThemeRegistryItem> {
-  // Normalize the URL first (transform editor URLs to theme JSON URLs)
-  const normalizedUrl = normalizeTweakcnUrl(url);
-  
-  // Validate URL first
-  const validation = validateUrl(normalizedUrl);
+/**
+ * Fetch a theme and everything it extends, merged into one registry item
+ * `extends` comes first, then URL `registryDependencies` in order, then the item itself.
+ */
+export async function fetchThemeFromUrl(
+  url: string,
+  options: ThemeSourceOptions = {},
+): Promise<ThemeRegistryItem> {
+  const cache = resolveThemeCache(options.cache);
+  const items = await fetchRegistryChain(resolveThemeUrl(url, options), [], cache, options);
+  const item = mergeRegistryItems(items);
+  return sanitizeThemeSource(item, options.sanitize);
+}
+
+/**
+ * Fetch a shadcn `registry.json` index and list its `registry:theme` items as theme options
+ * Only the index is fetched; each theme is fetched when it is applied or previewed.
+ */
+export async function fetchThemeCatalog(
+  url: string,
+  options: ThemeSourceOptions & ThemeCatalogOptions = {},
+): Promise<ThemeCatalog> {
+  const indexUrl = resolveThemeUrl(url, options);
+  const cache = resolveThemeCache(options.cache);
+  const index = parseRegistryIndex(await fetchRegistryItem(indexUrl, cache, options), indexUrl);
+  const name = index.name || new URL(indexUrl).hostname;
+
+  const themes = index.items
+    .filter((item) => item.type === "registry:theme")
+    .map(
+      (item): ThemeOption => ({
+        id: `catalog-${name}-${item.name}`,
+        name: item.title || item.name,
+        url: options.itemUrl
+          ? options.itemUrl.replace("{name}", item.name)
+          : new URL(`${item.name}.json`, indexUrl).toString(),
+        catalog: name,
+      }),
+    );
+
+  return { name, url: indexUrl, homepage: index.homepage, themes };
+}
+
+/**
+ * Fetch an item and, depth first, the items it builds on
+ * @param chain - URLs currently being resolved, used to detect cycles
+ */
+async function fetchRegistryChain(
+  url: string,
+  chain: string[],
+  cache: ThemeCache | null,
+  options: ThemeSourceOptions,
+): Promise<ThemeRegistryItem[]> {
+  if (chain.includes(url)) {
+    throw new ThemeValidationError(`Circular theme dependency: ${[...chain, url].join(" -> ")}`, {
+      code: "circular-dependency",
+      source: url,
+    });
+  }
+  if (chain.length >= MAX_REGISTRY_DEPTH) {
+    throw new ThemeValidationError(
+      `Theme dependency chain is deeper than ${MAX_REGISTRY_DEPTH} items`,
+      { code: "dependency-depth", source: url },
+    );
+  }
+
+  const item = parseThemeItem(await fetchRegistryItem(url, cache, options), url);
+
+  const items: ThemeRegistryItem[] = [];
+  for (const reference of getRegistryReferences(item, url, options)) {
+    items.push(...(await fetchRegistryChain(reference, [...chain, url], cache, options)));
+  }
+  items.push(item);
+  return items;
+}
+
+/**
+ * Fetch registry item JSON through the cache
+ * Fresh entries skip the network, stale ones are revalidated with their ETag, and any
+ * cached entry is served when the request fails so known themes work offline.
+ * Aborted requests always reject, even when a cached entry exists.
+ */
+async function fetchRegistryItem(
+  url: string,
+  cache: ThemeCache | null,
+  request: RequestOptions,
+): Promise<unknown> {
+  // Validate URL first; sources were already resolved to fetchable URLs by the caller
+  const validation = validateUrl(url);
   if (!validation.valid) {
-    throw new Error(validation.error || "Invalid URL");
+    throw new ThemeValidationError(validation.error || "Invalid URL", {
+      code: "invalid-url",
+      source: url,
+    });
+  }
+
+  const cached = await cache?.get(url);
+  if (cache && cached && Date.now() - cached.fetchedAt < cache.ttl) {
+    return cached.item;
   }
 
   try {
-    const response = await fetch(normalizedUrl);
+    const response = await requestRegistryItem(url, cached?.etag, request);
+    if (response.status === 304 && cached) {
+      await cache?.set(url, { ...cached, fetchedAt: Date.now() });
+      return cached.item;
+    }
     if (!response.ok) {
-      throw new Error(`Failed to fetch theme: ${response.statusText} (${response.status})`);
+      throw new ThemeFetchError(
+        `Failed to fetch theme: ${response.statusText} (${response.status})`,
+        { code: "http", source: url, status: response.status },
+      );
     }
-    return response.json();
+    const item = await readRegistryJson(response, url);
+    await cache?.set(url, {
+      item,
+      etag: response.headers.get("ETag") ?? undefined,
+      fetchedAt: Date.now(),
+    });
+    return item;
   } catch (e) {
-    // Handle network errors and malformed URI errors
-    if (e instanceof TypeError && e.message.includes("Failed to fetch")) {
-      throw new Error(
+    if (request.signal?.aborted || isAbortError(e)) {
+      throw e;
+    }
+    if (cached) {
+      return cached.item;
+    }
+    if (e instanceof TweakcnError) {
+      throw e;
+    }
+    // fetch rejects with a TypeError for network failures, whatever the browser's wording
+    if (e instanceof TypeError) {
+      throw new ThemeFetchError(
         "Network error: Unable to fetch theme. Please check your connection and the URL.",
+        { code: "network", source: url, cause: e },
       );
     }
     if (e instanceof URIError) {
-      throw new Error(
+      throw new ThemeValidationError(
         "Invalid URL: contains malformed characters. Please check the URL and try again.",
+        { code: "invalid-url", source: url, cause: e },
       );
     }
-    // Re-throw if it's already an Error with a message
-    if (e instanceof Error) {
-      throw e;
-    }
-    throw new Error("Failed to fetch theme: Unknown error occurred");
+    throw new ThemeFetchError(
+      e instanceof Error && e.message ? e.message : "Failed to fetch theme: Unknown error occurred",
+      { code: "unknown", source: url, cause: e },
+    );
+  }
+}
+
+/**
+ * Parse a registry response, refusing the HTML pages that pasted page links usually return
+ */
+async function readRegistryJson(response: Response, url: string): Promise<unknown> {
+  const text = await response.text();
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.includes("text/html") || /^\s*</.test(text)) {
+    throw new ThemeParseError(
+      `Expected theme JSON from ${url} but got an HTML page. Use the theme's JSON URL (usually ending in .json) rather than the page that shows it.`,
+      { code: "html-response", source: url },
+    );
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new ThemeParseError(`Invalid theme JSON from ${url}`, {
+      code: "invalid-json",
+      source: url,
+      cause: e,
+    });
   }
 }
 
+/**
+ * Request an item, conditionally when an ETag is known
+ * fetchWithRetry drops `If-None-Match` on retry when the preflight it causes is refused.
+ */
+function requestRegistryItem(
+  url: string,
+  etag: string | undefined,
+  request: RequestOptions,
+): Promise<Response> {
+  return fetchWithRetry(url, etag ? { headers: { "If-None-Match": etag } } : {}, request);
+}
+
+/**
+ * Load the registry item behind a theme option
+ * CSS options are parsed locally, URL options are fetched
+ */
+export async function resolveThemeOption(
+  theme: ThemeOption,
+  options: ThemeSourceOptions = {},
+): Promise<ThemeRegistryItem> {
+  if (theme.css) {
+    return parseCssToThemeRegistryItem(theme.css, theme.name, options);
+  }
+  if (theme.url) {
+    return fetchThemeFromUrl(theme.url, options);
+  }
+  throw new ThemeValidationError(`Theme "${theme.name}" has no URL or CSS to load`, {
+    code: "invalid-theme",
+    source: theme.name,
+  });
+}
+
 export function extractThemeNameFromUrl(url: string): string {
   try {
     const match = url.match(/\/([^/]+)\.json$/);
@@ -350,112 +812,143 @@ export function extractThemeNameFromUrl(url: string): string {
 }
 
 /**
- * Parses CSS code and converts it to a ThemeRegistryItem
- * Supports :root, .dark, and @theme inline selectors
+ * Resolve a nested selector against its parents, as CSS nesting does
  */
-export function parseCssToThemeRegistryItem(
-  css: string,
-  name: string = "custom-css-theme",
-): ThemeRegistryItem {
-  const cssVars: ThemeRegistryCssVars = {
-    theme: {},
-    light: {},
-    dark: {},
-  };
+function resolveNestedSelectors(parents: string[], selector: string): string[] {
+  const parts = splitSelectorList(selector);
+  if (parents.length === 0) {
+    return parts;
+  }
+  return parents.flatMap((parent) =>
+    parts.map((part) => (part.includes("&") ? part.replaceAll("&", parent) : `${parent} ${part}`)),
+  );
+}
 
-  // Remove comments
-  const cleanedCss = css.replace(/\/\*[\s\S]*?\*\//g, "");
-
-  // Parse :root selector (light mode variables)
-  const rootMatch = cleanedCss.match(/:root\s*\{([^}]+)\}/);
-  if (rootMatch && rootMatch[1]) {
-    const rootContent = rootMatch[1];
-    const varMatches = rootContent.matchAll(/--([^:]+):\s*([^;]+);/g);
-    for (const match of varMatches) {
-      if (match[1] && match[2]) {
-        const key = match[1].trim();
-        const value = match[2].trim();
-        // Determine if it's a theme-level variable or light mode variable
-        // Theme-level variables are things like --radius, --font-*, --shadow-*, etc.
-        if (
-          key.startsWith("font-") ||
-          key.startsWith("radius") ||
-          key.startsWith("shadow") ||
-          key.startsWith("tracking-") ||
-          key.startsWith("spacing")
-        ) {
-          cssVars.theme![key] = value;
-        } else {
-          cssVars.light![key] = value;
-        }
+/**
+ * Which mode a rule's variables belong to: `:root`/`html` for light, `.dark`, `:root.dark`
+ * or `html.dark` for dark. Descendants such as `:root .dark` or `.dark .card` are neither.
+ */
+function getSelectorMode(selector: string): "light" | "dark" | null {
+  if (/^(:root|html)$/.test(selector)) {
+    return "light";
+  }
+  if (/^(:root|html)?\.dark$/.test(selector)) {
+    return "dark";
+  }
+  return null;
+}
+
+interface CssVarsContext {
+  selectors: string[];
+  /** Inside `@media (prefers-color-scheme: dark)` */
+  prefersDark: boolean;
+  /** Inside `@theme` or `@theme inline` */
+  inTheme: boolean;
+}
+
+function collectCssVars(
+  nodes: CssNode[],
+  context: CssVarsContext,
+  cssVars: Required<ThemeRegistryCssVars>,
+  cssLayerBase: Record<string, Record<string, string>>,
+): void {
+  nodes.forEach((node) => {
+    if (node.type === "rule") {
+      collectCssVars(
+        node.children,
+        { ...context, selectors: resolveNestedSelectors(context.selectors, node.selector) },
+        cssVars,
+        cssLayerBase,
+      );
+      return;
+    }
+
+    if (node.type === "at-rule") {
+      if (!node.children) {
+        return;
+      }
+      if (node.name === "theme") {
+        collectCssVars(node.children, { ...context, inTheme: true }, cssVars, cssLayerBase);
+      } else if (node.name === "layer" || node.name === "supports") {
+        collectCssVars(node.children, context, cssVars, cssLayerBase);
+      } else if (node.name === "media" && /prefers-color-scheme\s*:\s*dark/.test(node.prelude)) {
+        collectCssVars(node.children, { ...context, prefersDark: true }, cssVars, cssLayerBase);
       }
+      return;
     }
-  }
 
-  // Parse .dark selector (dark mode variables)
-  const darkMatch = cleanedCss.match(/\.dark\s*\{([^}]+)\}/);
-  if (darkMatch && darkMatch[1]) {
-    const darkContent = darkMatch[1];
-    const varMatches = darkContent.matchAll(/--([^:]+):\s*([^;]+);/g);
-    for (const match of varMatches) {
-      if (match[1] && match[2]) {
-        const key = match[1].trim();
-        const value = match[2].trim();
-        // Dark mode variables (excluding theme-level ones)
-        if (
-          !key.startsWith("font-") &&
-          !key.startsWith("radius") &&
-          !key.startsWith("shadow") &&
-          !key.startsWith("tracking-") &&
-          !key.startsWith("spacing")
-        ) {
-          cssVars.dark![key] = value;
-        }
+    if (!node.property.startsWith("--") || !node.value) {
+      return;
+    }
+    const key = node.property.slice(2);
+
+    if (context.inTheme) {
+      if (isThemeLevelKey(key)) {
+        cssVars.theme[key] = node.value;
+      } else {
+        // These are typically color mappings, add to :root in @layer base
+        cssLayerBase[":root"] ??= {};
+        cssLayerBase[":root"][`--${key}`] = node.value;
       }
+      return;
     }
-  }
 
-  // Parse @theme inline block if present
-  const themeInlineMatch = cleanedCss.match(/@theme\s+inline\s*\{([^}]+)\}/);
-  const cssLayerBase: Record<string, Record<string, string>> = {};
-  if (themeInlineMatch && themeInlineMatch[1]) {
-    const themeContent = themeInlineMatch[1];
-    const varMatches = themeContent.matchAll(/--([^:]+):\s*([^;]+);/g);
-    for (const match of varMatches) {
-      if (match[1] && match[2]) {
-        const key = match[1].trim();
-        const value = match[2].trim();
-        // Check if it's a theme-level variable (radius, font, shadow, etc.)
-        if (
-          key.startsWith("font-") ||
-          key.startsWith("radius") ||
-          key.startsWith("shadow") ||
-          key.startsWith("tracking-") ||
-          key.startsWith("spacing")
-        ) {
-          // Add to theme-level variables
-          cssVars.theme![key] = value;
+    context.selectors.forEach((selector) => {
+      const mode = getSelectorMode(selector);
+      if (mode === "dark" || (mode === "light" && context.prefersDark)) {
+        // Shadows can differ per mode; other theme-level variables can't
+        if (!isThemeLevelKey(key) || key.startsWith("shadow")) {
+          cssVars.dark[key] = node.value;
+        }
+      } else if (mode === "light") {
+        if (isThemeLevelKey(key)) {
+          cssVars.theme[key] = node.value;
         } else {
-          // These are typically color mappings, add to :root in @layer base
-          if (!cssLayerBase[":root"]) {
-            cssLayerBase[":root"] = {};
-          }
-          cssLayerBase[":root"][`--${key}`] = value;
+          cssVars.light[key] = node.value;
         }
       }
-    }
-  }
+    });
+  });
+}
 
-  return {
-    name,
-    type: "theme",
-    cssVars,
-    ...(Object.keys(cssLayerBase).length > 0 && {
-      css: {
-        "@layer base": cssLayerBase,
-      },
-    }),
+/**
+ * Parses CSS code and converts it to a ThemeRegistryItem
+ * Reads every `:root`, `.dark` and `@theme` block, including ones nested in rules,
+ * `@layer` or `@media (prefers-color-scheme: dark)`; later blocks win.
+ * Malformed CSS throws a ThemeParseError with the line and column of the problem.
+ */
+export function parseCssToThemeRegistryItem(
+  css: string,
+  name: string = "custom-css-theme",
+  options: ThemeSourceOptions = {},
+): ThemeRegistryItem {
+  const cssVars: Required<ThemeRegistryCssVars> = {
+    theme: {},
+    light: {},
+    dark: {},
   };
+  const cssLayerBase: Record<string, Record<string, string>> = {};
+  collectCssVars(
+    parseCss(css),
+    { selectors: [], prefersDark: false, inTheme: false },
+    cssVars,
+    cssLayerBase,
+  );
+
+  const registryItem = validateRegistryItem(
+    {
+      name,
+      type: "theme",
+      cssVars,
+      ...(Object.keys(cssLayerBase).length > 0 && {
+        css: {
+          "@layer base": cssLayerBase,
+        },
+      }),
+    },
+    "CSS input",
+  );
+  return sanitizeThemeSource(registryItem, options.sanitize);
 }
 
 /**
@@ -463,9 +956,9 @@ export function parseCssToThemeRegistryItem(
  */
 export function isCssCode(input: string): boolean {
   const trimmed = input.trim();
-  // If it's a valid URL, it's not CSS
+  // If it's a valid URL or a registry item name, it's not CSS
   const urlValidation = validateUrl(trimmed);
-  if (urlValidation.valid) {
+  if (urlValidation.valid || isNamespacedName(trimmed)) {
     return false;
   }
   // Check for CSS indicators